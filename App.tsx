@@ -1,33 +1,179 @@
-import React, { useState, useEffect } from "react";
-import { Play, SkipForward, RotateCcw, Settings, FileText } from "lucide-react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
+  Play,
+  SkipForward,
+  SkipBack,
+  Pause,
+  FastForward,
+  RotateCcw,
+  Settings,
+  FileText,
+  Grid3x3,
+  Columns2,
+  Download,
+  Upload,
+} from "lucide-react";
+import {
+  CONFIG_PRESETS,
   DEFAULT_CONFIG,
   INITIAL_REGISTERS,
   SAMPLE_CODE_SEQUENTIAL,
   SAMPLE_CODE_LOOP,
+  SAMPLE_CODE_EXCEPTION,
 } from "./constants";
 import { parseAssembly } from "./services/parser";
-import { initializeState, nextCycle } from "./services/tomasulo";
-import { SimulationState, SystemConfig, OpType } from "./types";
+import { initializeState, nextCycle } from "./services/simulator";
+import { writeMemory } from "./services/memory";
+import { checkBreakpoints } from "./services/breakpoints";
+import { verifyRun } from "./services/interpreter";
+import {
+  configToJSON,
+  parseConfigJSON,
+  validateConfig,
+} from "./services/config";
+import {
+  SimulationState,
+  SystemConfig,
+  OpType,
+  BranchPredictorType,
+  LoadStorePolicy,
+  ReplacementPolicy,
+  WritePolicy,
+  CDBArbitration,
+  CacheLevelConfig,
+  Diagnostic,
+  Breakpoint,
+  ConfigError,
+  FUType,
+  SimulationEngine,
+  ExceptionHandling,
+} from "./types";
 import { SimulationView } from "./components/SimulationView";
+import { CodeEditor } from "./components/CodeEditor";
+import { BreakpointPanel } from "./components/BreakpointPanel";
+import { SweepPanel } from "./components/SweepPanel";
+import { ComparePanel } from "./components/ComparePanel";
 
 const App: React.FC = () => {
   const [code, setCode] = useState(SAMPLE_CODE_SEQUENTIAL);
   const [config, setConfig] = useState<SystemConfig>(DEFAULT_CONFIG);
-  const [simState, setSimState] = useState<SimulationState | null>(null);
+  // Every state of the run so far, one per cycle; `cursor` is the one shown
+  const [history, setHistory] = useState<SimulationState[]>([]);
+  // The config the run in `history` was built with. Edits to `config` only
+  // reach it through a reset, or right away before the first step.
+  const [runConfig, setRunConfig] = useState<SystemConfig>(DEFAULT_CONFIG);
+  const [cursor, setCursor] = useState(0);
+  const [goToInput, setGoToInput] = useState("");
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(4); // Cycles per second when auto-playing
+  const [breakpoints, setBreakpoints] = useState<Breakpoint[]>([]);
+  const [breakMessage, setBreakMessage] = useState<string | null>(null);
   const [labels, setLabels] = useState<Record<string, number>>({});
   const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
   const [showConfig, setShowConfig] = useState(false);
+  const [importErrors, setImportErrors] = useState<ConfigError[]>([]);
+  // Right panel tool shown instead of the simulation view
+  const [tool, setTool] = useState<"sweep" | "compare" | null>(null);
   const [isRunning, setIsRunning] = useState(false); // New flag to track if simulation technically started
 
-  // Initialize immediately on mount
+  const simState: SimulationState | null = history[cursor] || null;
+  const atLatest = cursor === history.length - 1;
+  const configErrors = useMemo(() => validateConfig(config), [config]);
+  const started = history.length > 1;
+
+  // Once finished, check the result against the in-order golden model
+  const verification = useMemo(() => {
+    if (!simState || !simState.isFinished || history.length === 0) return null;
+    const { golden, mismatches } = verifyRun(
+      history[0],
+      simState,
+      labels,
+      runConfig
+    );
+    return { mismatches, fault: golden.fault };
+  }, [simState, history, labels, runConfig]);
+
+  // The pipeline diagram shows everything up to the displayed cycle
+  const shownHistory = useMemo(
+    () => history.slice(0, cursor + 1),
+    [history, cursor]
+  );
+
+  // Sweeps and comparisons start from the loaded program and its initial registers/memory
+  const start = history[0];
+  const sweepProgram = useMemo(() => {
+    if (!start) return null;
+    const registers: { [key: string]: number } = {};
+    Object.entries(start.registers).forEach(
+      ([name, reg]) => (registers[name] = reg.value)
+    );
+    return {
+      instructions: start.instructions,
+      labels,
+      registers,
+      memory: start.memory,
+    };
+  }, [start, labels]);
+
+  const loadState = (state: SimulationState, stateConfig: SystemConfig) => {
+    setHistory([state]);
+    setRunConfig(stateConfig);
+    setCursor(0);
+    setIsPlaying(false);
+    setBreakMessage(null);
+  };
+
+  // Cycle 0 edits replace the initial state and drop the old run
+  const updateInitialState = (
+    update: (state: SimulationState) => SimulationState
+  ) => {
+    if (simState && simState.cycle === 0)
+      loadState(update(simState), runConfig);
+  };
+
+  // Before the first step, config changes rebuild the stations, caches and
+  // ROB right away, keeping any register and memory edits
+  useEffect(() => {
+    if (!start || started || configErrors.length > 0) return;
+    // Already built with this config (a reset or the rebuild below)
+    if (config === runConfig) return;
+    const registers: { [key: string]: number } = {};
+    Object.entries(start.registers).forEach(
+      ([name, reg]) => (registers[name] = reg.value)
+    );
+    loadState(
+      initializeState(start.instructions, config, registers, start.memory),
+      config
+    );
+  }, [config, runConfig, start, started, configErrors]);
+
+  // Initialize immediately on mount, once (StrictMode runs effects twice)
+  const initialized = useRef(false);
   useEffect(() => {
+    if (initialized.current) return;
+    initialized.current = true;
     resetAndInit(code);
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+  });
 
   const resetAndInit = (sourceCode: string) => {
+    if (configErrors.length > 0) {
+      setError("Fix the configuration errors first.");
+      return;
+    }
     try {
-      const { instructions, labels: parsedLabels } = parseAssembly(sourceCode);
+      const {
+        instructions,
+        labels: parsedLabels,
+        memory,
+        diagnostics: found,
+      } = parseAssembly(sourceCode, INITIAL_REGISTERS);
+      setDiagnostics(found);
+      const errorCount = found.filter((d) => d.severity === "error").length;
+      if (errorCount > 0) {
+        setError(`${errorCount} error(s) in the program, fix them to run it.`);
+        return;
+      }
       const initialRegs = INITIAL_REGISTERS.reduce((acc, name) => {
         acc[name] = 0;
         // Set some defaults just for specific registers based on generic examples
@@ -35,9 +181,14 @@ const App: React.FC = () => {
         return acc;
       }, {} as Record<string, number>);
 
-      const initialState = initializeState(instructions, config, initialRegs);
+      const initialState = initializeState(
+        instructions,
+        config,
+        initialRegs,
+        memory
+      );
       setLabels(parsedLabels);
-      setSimState(initialState);
+      loadState(initialState, config);
       setError(null);
       setIsRunning(false);
     } catch (e) {
@@ -46,31 +197,87 @@ const App: React.FC = () => {
   };
 
   const handleUpdateRegister = (name: string, value: number) => {
-    if (simState && simState.cycle === 0) {
-      setSimState((prev) => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          registers: {
-            ...prev.registers,
-            [name]: { ...prev.registers[name], value },
-          },
-        };
-      });
-    }
+    updateInitialState((prev) => ({
+      ...prev,
+      registers: {
+        ...prev.registers,
+        [name]: { ...prev.registers[name], value },
+      },
+      // With renaming the value lives in the mapped physical register
+      physicalRegisters: prev.physicalRegisters.map((p) =>
+        p.name === prev.rat[name] ? { ...p, value } : p
+      ),
+    }));
+  };
+
+  const handleUpdateMemory = (address: number, value: number, op: string) => {
+    updateInitialState((prev) => {
+      const memory = { ...prev.memory };
+      writeMemory(memory, address, op, value);
+      return { ...prev, memory };
+    });
   };
 
   const startSimulation = () => {
     setIsRunning(true);
   };
 
-  const handleNextCycle = () => {
-    if (simState && !simState.isFinished) {
-      if (!isRunning) setIsRunning(true);
-      setSimState(nextCycle(simState, config, labels));
+  // Steps forward from the cursor, reusing states already in the history.
+  // Stops when the program finishes or, if asked, at a breakpoint.
+  const advance = (steps: number, stopAtBreakpoints: boolean) => {
+    if (history.length === 0) return;
+    // A started run keeps its own config, so only a new one needs checking
+    if (!started && configErrors.length > 0) {
+      setBreakMessage("Fix the configuration errors first.");
+      setIsPlaying(false);
+      return;
+    }
+    const states = [...history];
+    let index = cursor;
+    let hit: string | null = null;
+    for (let n = 0; n < steps && !states[index].isFinished; n++) {
+      if (index === states.length - 1)
+        states.push(nextCycle(states[index], runConfig, labels));
+      index++;
+      if (stopAtBreakpoints) {
+        hit = checkBreakpoints(states[index - 1], states[index], breakpoints);
+        if (hit) break;
+      }
     }
+    if (states.length > history.length) setHistory(states);
+    setCursor(index);
+    setIsRunning(true);
+    setBreakMessage(hit);
+    if (hit || states[index].isFinished) setIsPlaying(false);
+  };
+
+  const handleNextCycle = () => advance(1, true);
+
+  // Runs until the end, a breakpoint, or the cycle limit
+  const handleRun = () => advance(Infinity, true);
+
+  const handlePrevCycle = () => {
+    setIsPlaying(false);
+    if (cursor > 0) setCursor(cursor - 1);
+  };
+
+  const goToCycle = (target: number) => {
+    if (history.length === 0 || isNaN(target)) return;
+    setIsPlaying(false);
+    if (target <= cursor) setCursor(Math.max(0, target));
+    else advance(target - cursor, false);
   };
 
+  // Auto-play: one cycle per tick while playing. The tick calls the latest
+  // `advance`, so breakpoints edited while playing count.
+  const advanceRef = useRef(advance);
+  advanceRef.current = advance;
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => advanceRef.current(1, true), 1000 / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, cursor, speed]);
+
   const handleReset = () => {
     resetAndInit(code);
   };
@@ -82,13 +289,134 @@ const App: React.FC = () => {
     }));
   };
 
-  const updateCache = (field: string, val: number) => {
+  const updateCache = (field: string, val: number | boolean) => {
     setConfig((prev) => ({
       ...prev,
       cache: { ...prev.cache, [field]: val },
     }));
   };
 
+  const updateCacheLevel = (
+    level: number,
+    field: string,
+    val: number | string | boolean
+  ) => {
+    setConfig((prev) => ({
+      ...prev,
+      cache: {
+        ...prev.cache,
+        levels: prev.cache.levels.map((l, i) =>
+          i === level ? { ...l, [field]: val } : l
+        ),
+      },
+    }));
+  };
+
+  // New levels are twice the size of the one above, four times slower
+  const addCacheLevel = () => {
+    setConfig((prev) => {
+      const last = prev.cache.levels[prev.cache.levels.length - 1];
+      const level: CacheLevelConfig = last
+        ? {
+            ...last,
+            name: `L${prev.cache.levels.length + 1}`,
+            cacheSize: last.cacheSize * 2,
+            hitLatency: last.hitLatency * 4,
+          }
+        : { ...DEFAULT_CONFIG.cache.levels[0] };
+      return {
+        ...prev,
+        cache: { ...prev.cache, levels: [...prev.cache.levels, level] },
+      };
+    });
+  };
+
+  const removeCacheLevel = () => {
+    setConfig((prev) => ({
+      ...prev,
+      cache: { ...prev.cache, levels: prev.cache.levels.slice(0, -1) },
+    }));
+  };
+
+  const updateRSSize = (type: string, val: number) => {
+    setConfig((prev) => ({
+      ...prev,
+      rsSizes: { ...prev.rsSizes, [type]: val },
+    }));
+  };
+
+  const updateFunctionalUnit = (
+    type: FUType,
+    field: "count" | "pipelined",
+    val: number | boolean
+  ) => {
+    setConfig((prev) => ({
+      ...prev,
+      functionalUnits: {
+        ...prev.functionalUnits,
+        [type]: { ...prev.functionalUnits[type], [field]: val },
+      },
+    }));
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = CONFIG_PRESETS.find((p) => p.name === name);
+    if (preset) setConfig(preset.config);
+    setImportErrors([]);
+  };
+
+  const exportConfig = () => {
+    const blob = new Blob([configToJSON(config)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "tomasulo-config.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importConfig = async (file: File) => {
+    const { config: imported, errors } = parseConfigJSON(await file.text());
+    setImportErrors(errors);
+    if (imported) setConfig(imported);
+  };
+
+  // Validation message under a config field, if it has one
+  const fieldError = (field: string) => {
+    const found = configErrors.find((e) => e.field === field);
+    return found && <p className="text-xs text-red-400">{found.message}</p>;
+  };
+
+  const updateROB = (field: string, val: number | boolean) => {
+    setConfig((prev) => ({
+      ...prev,
+      rob: { ...prev.rob, [field]: val },
+    }));
+  };
+
+  const updatePhysicalRegisters = (field: string, val: number | boolean) => {
+    setConfig((prev) => ({
+      ...prev,
+      physicalRegisters: { ...prev.physicalRegisters, [field]: val },
+    }));
+  };
+
+  const updateCDB = (field: string, val: string | number) => {
+    setConfig((prev) => ({
+      ...prev,
+      cdb: { ...prev.cdb, [field]: val },
+    }));
+  };
+
+  const updateBranchPredictor = (field: string, val: string | number) => {
+    setConfig((prev) => ({
+      ...prev,
+      branchPredictor: { ...prev.branchPredictor, [field]: val },
+    }));
+  };
+
   // Auto-scroll log
   //   useEffect(() => {
   //     const el = document.getElementById("log-end");
@@ -114,6 +442,24 @@ const App: React.FC = () => {
               Cycle: {simState.cycle} | PC: {simState.pc}
             </div>
           )}
+          <button
+            onClick={() => setTool(tool === "compare" ? null : "compare")}
+            className={`p-2 rounded hover:bg-gray-700 transition ${
+              tool === "compare" ? "bg-gray-700 text-blue-400" : "text-gray-400"
+            }`}
+            title="Compare two configurations"
+          >
+            <Columns2 className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setTool(tool === "sweep" ? null : "sweep")}
+            className={`p-2 rounded hover:bg-gray-700 transition ${
+              tool === "sweep" ? "bg-gray-700 text-blue-400" : "text-gray-400"
+            }`}
+            title="Design-space sweep"
+          >
+            <Grid3x3 className="w-5 h-5" />
+          </button>
           <button
             onClick={() => setShowConfig(!showConfig)}
             className={`p-2 rounded hover:bg-gray-700 transition ${
@@ -135,65 +481,688 @@ const App: React.FC = () => {
                 Configuration
               </h2>
 
+              {/* Presets and files */}
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">Preset</label>
+                  <select
+                    className="w-48 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+                    value=""
+                    onChange={(e) => applyPreset(e.target.value)}
+                  >
+                    <option value="" disabled>
+                      Load a preset...
+                    </option>
+                    {CONFIG_PRESETS.map((p) => (
+                      <option key={p.name} value={p.name} title={p.description}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={exportConfig}
+                    className="flex-1 flex items-center justify-center text-xs bg-gray-800 hover:bg-gray-700 px-2 py-1 rounded text-gray-400"
+                  >
+                    <Download className="w-3 h-3 mr-1" /> Export JSON
+                  </button>
+                  <label className="flex-1 flex items-center justify-center text-xs bg-gray-800 hover:bg-gray-700 px-2 py-1 rounded text-gray-400 cursor-pointer">
+                    <Upload className="w-3 h-3 mr-1" /> Import JSON
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importConfig(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </div>
+                {importErrors.length > 0 && (
+                  <div className="text-xs text-red-300 bg-red-900 bg-opacity-30 border border-red-800 rounded px-2 py-1 space-y-1">
+                    <div className="font-bold">Import failed:</div>
+                    {importErrors.map((e, i) => (
+                      <div key={i} className="font-mono">
+                        {e.field && `${e.field}: `}
+                        {e.message}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {configErrors.length > 0 && (
+                  <p className="text-xs text-red-400">
+                    {configErrors.length} invalid setting(s), the simulator
+                    will not run until they are fixed.
+                  </p>
+                )}
+                {started && (
+                  <p className="text-xs text-yellow-300">
+                    The run has started: changes apply after a reset.
+                  </p>
+                )}
+              </div>
+
+              {/* Engine */}
+              <div className="space-y-3">
+                <h3 className="text-sm uppercase text-gray-500 font-bold">
+                  Engine
+                </h3>
+                <select
+                  className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+                  value={config.engine}
+                  onChange={(e) =>
+                    setConfig((prev) => ({
+                      ...prev,
+                      engine: e.target.value as SimulationEngine,
+                    }))
+                  }
+                >
+                  <option value={SimulationEngine.TOMASULO}>Tomasulo</option>
+                  <option value={SimulationEngine.SCOREBOARD}>
+                    Scoreboard (CDC 6600)
+                  </option>
+                </select>
+                {fieldError("engine")}
+                {config.engine === SimulationEngine.SCOREBOARD && (
+                  <p className="text-xs text-gray-500">
+                    The scoreboard issues one instruction per cycle and uses
+                    the functional unit counts, latencies and memory size. The
+                    station, cache, ROB, CDB and predictor settings only apply
+                    to Tomasulo. Use Compare to run both on this program.
+                  </p>
+                )}
+              </div>
+
+              {/* Reservation Stations */}
+              <div className="space-y-3">
+                <h3 className="text-sm uppercase text-gray-500 font-bold">
+                  Reservation Stations
+                </h3>
+                {Object.keys(config.rsSizes).map((type) => (
+                  <React.Fragment key={type}>
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-400 w-24">
+                        {type}
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                        value={
+                          config.rsSizes[type as keyof typeof config.rsSizes]
+                        }
+                        onChange={(e) =>
+                          updateRSSize(type, parseInt(e.target.value) || 0)
+                        }
+                      />
+                    </div>
+                    {fieldError(`rsSizes.${type}`)}
+                  </React.Fragment>
+                ))}
+              </div>
+
+              {/* Functional Units */}
+              <div className="space-y-3">
+                <h3 className="text-sm uppercase text-gray-500 font-bold">
+                  Functional Units
+                </h3>
+                {(Object.keys(config.functionalUnits) as FUType[]).map(
+                  (type) => (
+                    <React.Fragment key={type}>
+                      <div className="flex justify-between items-center">
+                        <label className="text-sm text-gray-400 w-24">
+                          {type}
+                        </label>
+                        <label
+                          className="flex items-center text-xs text-gray-400"
+                          title="Accepts a new operation every cycle"
+                        >
+                          <input
+                            type="checkbox"
+                            className="mr-1"
+                            checked={config.functionalUnits[type].pipelined}
+                            onChange={(e) =>
+                              updateFunctionalUnit(
+                                type,
+                                "pipelined",
+                                e.target.checked
+                              )
+                            }
+                          />
+                          Pipelined
+                        </label>
+                        <input
+                          type="number"
+                          min="1"
+                          className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                          value={config.functionalUnits[type].count}
+                          onChange={(e) =>
+                            updateFunctionalUnit(
+                              type,
+                              "count",
+                              parseInt(e.target.value) || 0
+                            )
+                          }
+                        />
+                      </div>
+                      {fieldError(`functionalUnits.${type}.count`)}
+                    </React.Fragment>
+                  )
+                )}
+                <p className="text-xs text-gray-500">
+                  Loads and stores share the MEMORY units.
+                </p>
+              </div>
+
               {/* Latencies */}
               <div className="space-y-3">
                 <h3 className="text-sm uppercase text-gray-500 font-bold">
                   Latencies (Cycles)
                 </h3>
                 {Object.keys(config.latencies).map((op) => (
-                  <div key={op} className="flex justify-between items-center">
-                    <label className="text-sm text-gray-400 w-24">{op}</label>
+                  <React.Fragment key={op}>
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-400 w-24">{op}</label>
+                      <input
+                        type="number"
+                        min="1"
+                        className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                        value={config.latencies[op as OpType]}
+                        onChange={(e) =>
+                          updateLatency(op, parseInt(e.target.value) || 0)
+                        }
+                      />
+                    </div>
+                    {fieldError(`latencies.${op}`)}
+                  </React.Fragment>
+                ))}
+              </div>
+
+              {/* Cache */}
+              <div className="space-y-3">
+                <h3 className="text-sm uppercase text-gray-500 font-bold">
+                  Cache Hierarchy
+                </h3>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">Enabled</label>
+                  <input
+                    type="checkbox"
+                    checked={config.cache.enabled}
+                    onChange={(e) => updateCache("enabled", e.target.checked)}
+                  />
+                </div>
+                {config.cache.levels.map((level, i) => (
+                  <div
+                    key={i}
+                    className="space-y-2 border border-gray-700 rounded p-2"
+                  >
+                    <div className="text-sm font-bold text-orange-400">
+                      {level.name}
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-400">Block Size</label>
+                      <input
+                        type="number"
+                        className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                        value={level.blockSize}
+                        onChange={(e) =>
+                          updateCacheLevel(
+                            i,
+                            "blockSize",
+                            parseInt(e.target.value) || 0
+                          )
+                        }
+                      />
+                    </div>
+                    {fieldError(`cache.levels.${i}.blockSize`)}
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-400">Cache Size</label>
+                      <input
+                        type="number"
+                        className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                        value={level.cacheSize}
+                        onChange={(e) =>
+                          updateCacheLevel(
+                            i,
+                            "cacheSize",
+                            parseInt(e.target.value) || 0
+                          )
+                        }
+                      />
+                    </div>
+                    {fieldError(`cache.levels.${i}.cacheSize`)}
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-400">
+                        Associativity
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                        value={level.associativity}
+                        onChange={(e) =>
+                          updateCacheLevel(
+                            i,
+                            "associativity",
+                            parseInt(e.target.value) || 0
+                          )
+                        }
+                      />
+                    </div>
+                    {fieldError(`cache.levels.${i}.associativity`)}
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-400">Hit Latency</label>
+                      <input
+                        type="number"
+                        min="0"
+                        className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                        value={level.hitLatency}
+                        onChange={(e) =>
+                          updateCacheLevel(
+                            i,
+                            "hitLatency",
+                            parseInt(e.target.value) || 0
+                          )
+                        }
+                      />
+                    </div>
+                    {fieldError(`cache.levels.${i}.hitLatency`)}
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-400">Replacement</label>
+                      <select
+                        className="w-40 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+                        value={level.replacement}
+                        onChange={(e) =>
+                          updateCacheLevel(i, "replacement", e.target.value)
+                        }
+                      >
+                        <option value={ReplacementPolicy.LRU}>LRU</option>
+                        <option value={ReplacementPolicy.FIFO}>FIFO</option>
+                        <option value={ReplacementPolicy.RANDOM}>Random</option>
+                        <option value={ReplacementPolicy.PLRU}>
+                          Pseudo-LRU
+                        </option>
+                      </select>
+                    </div>
+                    {level.replacement === ReplacementPolicy.RANDOM && (
+                      <div className="flex justify-between items-center">
+                        <label className="text-sm text-gray-400">
+                          Random Seed
+                        </label>
+                        <input
+                          type="number"
+                          className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                          value={level.seed}
+                          onChange={(e) =>
+                            updateCacheLevel(
+                              i,
+                              "seed",
+                              parseInt(e.target.value) || 0
+                            )
+                          }
+                        />
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-400">Write Policy</label>
+                      <select
+                        className="w-40 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+                        value={level.writePolicy}
+                        onChange={(e) =>
+                          updateCacheLevel(i, "writePolicy", e.target.value)
+                        }
+                      >
+                        <option value={WritePolicy.WRITE_BACK}>
+                          Write-back
+                        </option>
+                        <option value={WritePolicy.WRITE_THROUGH}>
+                          Write-through
+                        </option>
+                      </select>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-400">
+                        Write Allocate
+                      </label>
+                      <input
+                        type="checkbox"
+                        checked={level.writeAllocate}
+                        onChange={(e) =>
+                          updateCacheLevel(i, "writeAllocate", e.target.checked)
+                        }
+                      />
+                    </div>
+                  </div>
+                ))}
+                <div className="flex space-x-2">
+                  <button
+                    onClick={addCacheLevel}
+                    className="flex-1 text-xs bg-gray-800 hover:bg-gray-700 px-2 py-1 rounded text-gray-400"
+                  >
+                    Add Level
+                  </button>
+                  <button
+                    onClick={removeCacheLevel}
+                    disabled={config.cache.levels.length === 0}
+                    className="flex-1 text-xs bg-gray-800 hover:bg-gray-700 px-2 py-1 rounded text-gray-400"
+                  >
+                    Remove Level
+                  </button>
+                </div>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">
+                    Memory Latency
+                  </label>
+                  <input
+                    type="number"
+                    className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                    value={config.cache.memoryLatency}
+                    onChange={(e) =>
+                      updateCache("memoryLatency", parseInt(e.target.value) || 0)
+                    }
+                  />
+                </div>
+                {fieldError("cache.memoryLatency")}
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">
+                    Memory Size (bytes)
+                  </label>
+                  <input
+                    type="number"
+                    min="8"
+                    step="8"
+                    className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                    value={config.memorySize}
+                    onChange={(e) =>
+                      setConfig((prev) => ({
+                        ...prev,
+                        memorySize: parseInt(e.target.value) || 0,
+                      }))
+                    }
+                  />
+                </div>
+                {fieldError("memorySize")}
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">Non-blocking</label>
+                  <input
+                    type="checkbox"
+                    checked={config.cache.nonBlocking}
+                    onChange={(e) =>
+                      updateCache("nonBlocking", e.target.checked)
+                    }
+                  />
+                </div>
+                {config.cache.nonBlocking && (
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm text-gray-400">MSHRs</label>
                     <input
                       type="number"
                       min="1"
                       className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
-                      value={config.latencies[op as OpType]}
+                      value={config.cache.mshrs}
                       onChange={(e) =>
-                        updateLatency(op, parseInt(e.target.value) || 1)
+                        updateCache("mshrs", parseInt(e.target.value) || 0)
                       }
                     />
                   </div>
-                ))}
+                )}
+                {config.cache.nonBlocking && fieldError("cache.mshrs")}
               </div>
 
-              {/* Cache */}
+              {/* Reorder Buffer */}
               <div className="space-y-3">
                 <h3 className="text-sm uppercase text-gray-500 font-bold">
-                  Cache
+                  Reorder Buffer
                 </h3>
                 <div className="flex justify-between items-center">
-                  <label className="text-sm text-gray-400">Block Size</label>
+                  <label className="text-sm text-gray-400">Enabled</label>
+                  <input
+                    type="checkbox"
+                    checked={config.rob.enabled}
+                    onChange={(e) => updateROB("enabled", e.target.checked)}
+                  />
+                </div>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">Entries</label>
                   <input
                     type="number"
+                    min="1"
                     className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
-                    value={config.cache.blockSize}
+                    value={config.rob.entries}
+                    onChange={(e) =>
+                      updateROB("entries", parseInt(e.target.value) || 0)
+                    }
+                  />
+                </div>
+                {fieldError("rob.entries")}
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">
+                    Register renaming
+                  </label>
+                  <input
+                    type="checkbox"
+                    checked={config.physicalRegisters.enabled}
                     onChange={(e) =>
-                      updateCache("blockSize", parseInt(e.target.value) || 4)
+                      updatePhysicalRegisters("enabled", e.target.checked)
                     }
                   />
                 </div>
+                {fieldError("physicalRegisters.enabled")}
+                {config.physicalRegisters.enabled && (
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm text-gray-400">
+                      Physical registers
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                      value={config.physicalRegisters.count}
+                      onChange={(e) =>
+                        updatePhysicalRegisters(
+                          "count",
+                          parseInt(e.target.value) || 0
+                        )
+                      }
+                    />
+                  </div>
+                )}
+                {config.physicalRegisters.enabled &&
+                  fieldError("physicalRegisters.count")}
+              </div>
+
+              {/* Load/Store Queue */}
+              <div className="space-y-3">
+                <h3 className="text-sm uppercase text-gray-500 font-bold">
+                  Load/Store Queue
+                </h3>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">Policy</label>
+                  <select
+                    className="w-40 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+                    value={config.loadStorePolicy}
+                    onChange={(e) =>
+                      setConfig((prev) => ({
+                        ...prev,
+                        loadStorePolicy: e.target.value as LoadStorePolicy,
+                      }))
+                    }
+                  >
+                    <option value={LoadStorePolicy.CONSERVATIVE}>
+                      Conservative
+                    </option>
+                    <option value={LoadStorePolicy.FORWARDING}>
+                      Store forwarding
+                    </option>
+                    <option value={LoadStorePolicy.SPECULATIVE}>
+                      Speculative + replay
+                    </option>
+                  </select>
+                </div>
+              </div>
+
+              {/* Branch Prediction */}
+              <div className="space-y-3">
+                <h3 className="text-sm uppercase text-gray-500 font-bold">
+                  Branch Prediction
+                </h3>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">Predictor</label>
+                  <select
+                    className="w-40 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+                    value={config.branchPredictor.type}
+                    onChange={(e) =>
+                      updateBranchPredictor("type", e.target.value)
+                    }
+                  >
+                    <option value={BranchPredictorType.STALL}>
+                      None (stall)
+                    </option>
+                    <option value={BranchPredictorType.NOT_TAKEN}>
+                      Always not taken
+                    </option>
+                    <option value={BranchPredictorType.TAKEN}>
+                      Always taken
+                    </option>
+                    <option value={BranchPredictorType.ONE_BIT}>1-bit</option>
+                    <option value={BranchPredictorType.TWO_BIT}>
+                      2-bit saturating
+                    </option>
+                    <option value={BranchPredictorType.BTB}>BTB</option>
+                  </select>
+                </div>
                 <div className="flex justify-between items-center">
-                  <label className="text-sm text-gray-400">Cache Size</label>
+                  <label className="text-sm text-gray-400">Table Entries</label>
                   <input
                     type="number"
+                    min="1"
                     className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
-                    value={config.cache.cacheSize}
+                    value={config.branchPredictor.tableSize}
                     onChange={(e) =>
-                      updateCache("cacheSize", parseInt(e.target.value) || 16)
+                      updateBranchPredictor(
+                        "tableSize",
+                        parseInt(e.target.value) || 0
+                      )
                     }
                   />
                 </div>
+                {fieldError("branchPredictor.tableSize")}
+              </div>
+
+              {/* Superscalar */}
+              <div className="space-y-3">
+                <h3 className="text-sm uppercase text-gray-500 font-bold">
+                  Superscalar
+                </h3>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">Issue Width</label>
+                  <input
+                    type="number"
+                    min="1"
+                    className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                    value={config.issueWidth}
+                    onChange={(e) =>
+                      setConfig((prev) => ({
+                        ...prev,
+                        issueWidth: parseInt(e.target.value) || 0,
+                      }))
+                    }
+                  />
+                </div>
+                {fieldError("issueWidth")}
                 <div className="flex justify-between items-center">
-                  <label className="text-sm text-gray-400">Miss Penalty</label>
+                  <label className="text-sm text-gray-400">CDBs</label>
                   <input
                     type="number"
+                    min="1"
                     className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
-                    value={config.cache.missPenalty}
+                    value={config.cdb.count}
                     onChange={(e) =>
-                      updateCache("missPenalty", parseInt(e.target.value) || 10)
+                      updateCDB("count", parseInt(e.target.value) || 0)
                     }
                   />
                 </div>
+                {fieldError("cdb.count")}
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">Arbitration</label>
+                  <select
+                    className="w-40 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+                    value={config.cdb.arbitration}
+                    onChange={(e) => updateCDB("arbitration", e.target.value)}
+                  >
+                    <option value={CDBArbitration.OLDEST_FIRST}>
+                      Oldest first
+                    </option>
+                    <option value={CDBArbitration.FIXED_PRIORITY}>
+                      Fixed (Add, Mult, Load, Int)
+                    </option>
+                    <option value={CDBArbitration.ROUND_ROBIN}>
+                      Round-robin
+                    </option>
+                  </select>
+                </div>
+                <p className="text-xs text-gray-500">
+                  With a ROB, up to Issue Width entries also commit per cycle.
+                </p>
+              </div>
+
+              {/* Exceptions */}
+              <div className="space-y-3">
+                <h3 className="text-sm uppercase text-gray-500 font-bold">
+                  Exceptions
+                </h3>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">On a fault</label>
+                  <select
+                    className="w-40 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+                    value={config.exceptionHandling}
+                    onChange={(e) =>
+                      setConfig((prev) => ({
+                        ...prev,
+                        exceptionHandling: e.target.value as ExceptionHandling,
+                      }))
+                    }
+                  >
+                    <option value={ExceptionHandling.HALT}>Halt</option>
+                    <option value={ExceptionHandling.SKIP}>
+                      Skip and continue
+                    </option>
+                  </select>
+                </div>
+                {fieldError("exceptionHandling")}
+                <p className="text-xs text-gray-500">
+                  Divides by zero and misaligned or out-of-range accesses
+                  fault. With a ROB the exception is taken at commit, so the
+                  halted state is precise; without one it is taken as soon as
+                  the instruction executes. A skipped instruction yields 0 and
+                  a skipped store writes nothing.
+                </p>
+              </div>
+
+              {/* Run Control */}
+              <div className="space-y-3">
+                <h3 className="text-sm uppercase text-gray-500 font-bold">
+                  Run Control
+                </h3>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-400">Cycle Limit</label>
+                  <input
+                    type="number"
+                    min="1"
+                    className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-right"
+                    value={config.maxCycles}
+                    onChange={(e) =>
+                      setConfig((prev) => ({
+                        ...prev,
+                        maxCycles: parseInt(e.target.value) || 0,
+                      }))
+                    }
+                  />
+                </div>
+                {fieldError("maxCycles")}
               </div>
 
               <button
@@ -229,17 +1198,33 @@ const App: React.FC = () => {
                     >
                       Loop
                     </button>
+                    <button
+                      onClick={() => {
+                        setCode(SAMPLE_CODE_EXCEPTION);
+                        resetAndInit(SAMPLE_CODE_EXCEPTION);
+                      }}
+                      className="text-xs bg-gray-800 hover:bg-gray-700 px-2 py-1 rounded text-gray-400"
+                    >
+                      Trap
+                    </button>
                   </div>
                 </div>
-                <textarea
-                  className="flex-1 bg-gray-800 text-gray-300 font-mono text-sm p-3 rounded border border-gray-700 resize-none focus:outline-none focus:border-blue-500"
-                  value={code}
-                  onChange={(e) => {
-                    setCode(e.target.value);
+                <CodeEditor
+                  code={code}
+                  diagnostics={diagnostics}
+                  onChange={(value) => {
+                    setCode(value);
                     // Try to live parse/init
                     try {
-                      const { instructions, labels: parsedLabels } =
-                        parseAssembly(e.target.value);
+                      const {
+                        instructions,
+                        labels: parsedLabels,
+                        memory,
+                        diagnostics: found,
+                      } = parseAssembly(value, INITIAL_REGISTERS);
+                      setDiagnostics(found);
+                      // Keep the last good program until the errors are fixed
+                      if (found.some((d) => d.severity === "error")) return;
                       const initRegs = simState
                         ? simState.registers
                         : INITIAL_REGISTERS.reduce((acc, name) => {
@@ -260,10 +1245,11 @@ const App: React.FC = () => {
                       const newState = initializeState(
                         instructions,
                         config,
-                        values
+                        values,
+                        memory // The data section is the initial memory image
                       );
                       setLabels(parsedLabels);
-                      setSimState(newState);
+                      loadState(newState, config);
                       setError(null);
                       setIsRunning(false);
                     } catch (err) {
@@ -278,11 +1264,21 @@ const App: React.FC = () => {
 
               <div className="p-4 border-t border-gray-700 bg-gray-800">
                 <div className="flex space-x-2">
+                  <button
+                    onClick={handlePrevCycle}
+                    disabled={cursor === 0}
+                    className={`px-4 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded transition-all ${
+                      cursor === 0 ? "opacity-50 cursor-not-allowed" : ""
+                    }`}
+                    title="Previous Cycle"
+                  >
+                    <SkipBack className="w-5 h-5 fill-current" />
+                  </button>
                   <button
                     onClick={handleNextCycle}
-                    disabled={simState?.isFinished}
+                    disabled={simState?.isFinished && atLatest}
                     className={`flex-1 flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded transition-all ${
-                      simState?.isFinished
+                      simState?.isFinished && atLatest
                         ? "opacity-50 cursor-not-allowed"
                         : ""
                     }`}
@@ -302,6 +1298,88 @@ const App: React.FC = () => {
                     <RotateCcw className="w-5 h-5" />
                   </button>
                 </div>
+                <div className="flex space-x-2 mt-2">
+                  <button
+                    onClick={() => setIsPlaying(!isPlaying)}
+                    disabled={simState?.isFinished && atLatest}
+                    className="flex-1 flex items-center justify-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white text-sm py-2 rounded transition-all"
+                  >
+                    {isPlaying ? (
+                      <Pause className="w-4 h-4 fill-current" />
+                    ) : (
+                      <Play className="w-4 h-4 fill-current" />
+                    )}
+                    <span>{isPlaying ? "Pause" : "Auto-step"}</span>
+                  </button>
+                  <button
+                    onClick={handleRun}
+                    disabled={simState?.isFinished && atLatest}
+                    className="flex-1 flex items-center justify-center space-x-2 bg-green-700 hover:bg-green-600 text-white text-sm py-2 rounded transition-all"
+                  >
+                    <FastForward className="w-4 h-4 fill-current" />
+                    <span>Run</span>
+                  </button>
+                </div>
+                <div className="flex items-center space-x-2 mt-2 text-xs text-gray-400">
+                  <span>Speed</span>
+                  <input
+                    type="range"
+                    min={1}
+                    max={30}
+                    value={speed}
+                    onChange={(e) => setSpeed(parseInt(e.target.value))}
+                    className="flex-1"
+                  />
+                  <span className="font-mono w-16 text-right">
+                    {speed} cyc/s
+                  </span>
+                </div>
+                {breakMessage && (
+                  <div className="mt-2 text-xs text-red-300 bg-red-900 bg-opacity-30 border border-red-800 rounded px-2 py-1">
+                    {breakMessage}
+                  </div>
+                )}
+                {history.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    <input
+                      type="range"
+                      min={0}
+                      max={history.length - 1}
+                      value={cursor}
+                      onChange={(e) => setCursor(parseInt(e.target.value))}
+                      className="w-full"
+                    />
+                    <div className="flex items-center space-x-2 text-xs text-gray-400">
+                      <span className="font-mono">
+                        Cycle {cursor} / {history.length - 1}
+                      </span>
+                      <input
+                        type="number"
+                        min="0"
+                        placeholder="Cycle"
+                        className="w-20 ml-auto bg-gray-900 border border-gray-600 rounded px-2 py-1 text-right"
+                        value={goToInput}
+                        onChange={(e) => setGoToInput(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") goToCycle(parseInt(goToInput));
+                        }}
+                      />
+                      <button
+                        onClick={() => goToCycle(parseInt(goToInput))}
+                        className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+                      >
+                        Go
+                      </button>
+                    </div>
+                  </div>
+                )}
+                <div className="mt-3">
+                  <BreakpointPanel
+                    breakpoints={breakpoints}
+                    registerNames={INITIAL_REGISTERS}
+                    onChange={setBreakpoints}
+                  />
+                </div>
               </div>
             </>
           )}
@@ -309,10 +1387,30 @@ const App: React.FC = () => {
 
         {/* Right Panel: Visualization */}
         <div className="flex-1 bg-gray-900 p-6 overflow-hidden relative">
-          {simState ? (
+          {tool && configErrors.length > 0 ? (
+            <div className="h-full flex items-center justify-center text-red-400">
+              Fix the configuration errors to use this tool.
+            </div>
+          ) : tool === "sweep" && sweepProgram ? (
+            <SweepPanel
+              program={sweepProgram}
+              config={config}
+              onClose={() => setTool(null)}
+            />
+          ) : tool === "compare" && sweepProgram ? (
+            <ComparePanel
+              program={sweepProgram}
+              config={config}
+              onClose={() => setTool(null)}
+            />
+          ) : simState ? (
             <SimulationView
               state={simState}
+              memorySize={runConfig.memorySize}
               onUpdateRegister={handleUpdateRegister}
+              onUpdateMemory={handleUpdateMemory}
+              verification={verification}
+              history={shownHistory}
             />
           ) : (
             <div className="h-full flex flex-col items-center justify-center text-gray-600">
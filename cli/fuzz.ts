@@ -0,0 +1,106 @@
+// cli/fuzz.ts
+// Differential fuzzer: runs random programs under random configurations and
+// checks each run against the in-order reference model. The first failure is
+// shrunk and written out as a program + config pair for the cli runner.
+//
+//   npm run fuzz -- [--programs 100] [--configs 10] [--seed n] [--length 12]
+//     [--out dir]
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  createRandom,
+  generateProgram,
+  randomConfig,
+  runCase,
+  shrinkCase,
+} from "../services/fuzz";
+
+const USAGE = `Usage: npm run fuzz -- [options]
+
+Options:
+  --programs <n>  Random programs to generate (default 100)
+  --configs <n>   Random configurations per program (default 10)
+  --seed <n>      Campaign seed (default: random, printed at the start)
+  --length <n>    Instructions per program, before loop unrolling (default 12)
+  --out <dir>     Write the shrunk failure to <dir>/repro.s and repro.json`;
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]) => {
+  const args = {
+    programs: 100,
+    configs: 10,
+    seed: Math.floor(Math.random() * 0x7fffffff),
+    length: 12,
+    out: "",
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--programs":
+      case "--configs":
+      case "--seed":
+      case "--length": {
+        const n = parseInt(argv[++i]);
+        if (isNaN(n) || n < 0) fail(`${arg} needs a number\n\n${USAGE}`);
+        args[arg.slice(2) as "programs"] = n;
+        break;
+      }
+      case "--out":
+        if (i + 1 >= argv.length) fail(`--out needs a value\n\n${USAGE}`);
+        args.out = argv[++i];
+        break;
+      case "-h":
+      case "--help":
+        console.log(USAGE);
+        process.exit(0);
+      default:
+        fail(`Unknown option ${arg}\n\n${USAGE}`);
+    }
+  }
+  return args;
+};
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const args = parseArgs(process.argv.slice(2));
+const rnd = createRandom(args.seed);
+console.log(`Seed ${args.seed}`);
+
+let runs = 0;
+for (let p = 0; p < args.programs; p++) {
+  const lines = generateProgram(rnd, args.length);
+  for (let c = 0; c < args.configs; c++) {
+    const config = randomConfig(rnd);
+    runs++;
+    const failure = runCase(lines.join("\n"), config);
+    if (!failure) continue;
+
+    console.log(`Run ${runs} (program ${p + 1}) failed: ${failure.reason}`);
+    console.log("Shrinking...");
+    const repro = shrinkCase(lines, config);
+    const program = repro.lines.join("\n") + "\n";
+    const configJSON = JSON.stringify(repro.config, null, 2) + "\n";
+
+    console.log(`\nMinimal reproducer: ${repro.failure.reason}\n`);
+    console.log(program);
+    console.log(configJSON);
+    if (args.out) {
+      mkdirSync(args.out, { recursive: true });
+      writeFileSync(join(args.out, "repro.s"), program);
+      writeFileSync(join(args.out, "repro.json"), configJSON);
+      console.log(
+        `Written to ${args.out}; replay with ` +
+          `npm run cli -- ${join(args.out, "repro.s")} ` +
+          `--config ${join(args.out, "repro.json")}`
+      );
+    }
+    process.exit(1);
+  }
+}
+console.log(`${runs} runs, all matched the reference model`);
@@ -0,0 +1,321 @@
+// cli/tomasulo.ts
+// Headless runner: simulates a program to completion and prints the
+// instruction status table, the register file and run statistics.
+//
+//   npm run cli -- program.s [--config config.json] [--registers regs.json]
+//     [--memory memory.json] [--format text|json] [--log]
+import { readFileSync } from "fs";
+import { DEFAULT_CONFIG, INITIAL_REGISTERS } from "../constants";
+import { parseAssembly } from "../services/parser";
+import { initializeState, nextCycle } from "../services/simulator";
+import { writeMemory } from "../services/memory";
+import { getRunSummary } from "../services/stats";
+import { verifyRun } from "../services/interpreter";
+import { isObject, parseConfigJSON } from "../services/config";
+import { checkAccess } from "../services/exceptions";
+import { Mismatch, SimulationState, SystemConfig } from "../types";
+
+const USAGE = `Usage: npm run cli -- <program.s> [options]
+
+Options:
+  --config <file>     SystemConfig JSON, merged over the defaults
+  --registers <file>  Initial registers, e.g. {"F2": 1.33, "R1": 24}
+  --memory <file>     Initial memory by address, e.g. {"0": 1.5} (doubles), or
+                      {"16": {"value": 7, "op": "SW"}} for another width
+  --format <fmt>      "text" (default) or "json"
+  --log               Also print the cycle-by-cycle log`;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const readText = (file: string) => {
+  try {
+    return readFileSync(file, "utf8");
+  } catch (e) {
+    return fail(`Cannot read ${file}: ${(e as Error).message}`);
+  }
+};
+
+const readJSON = (file: string) => {
+  try {
+    return JSON.parse(readText(file));
+  } catch (e) {
+    return fail(`Cannot read ${file}: ${(e as Error).message}`);
+  }
+};
+
+// Settings the file leaves out keep their defaults; any problem is fatal
+const readConfig = (file: string): SystemConfig => {
+  const { config, errors } = parseConfigJSON(readText(file));
+  if (!config)
+    fail(
+      errors
+        .map((e) => `${file}: ${e.field ? `${e.field}: ` : ""}${e.message}`)
+        .join("\n")
+    );
+  return config!;
+};
+
+// Register values by name, e.g. {"F2": 1.33}
+const readRegisters = (file: string): { [key: string]: number } => {
+  const raw = readJSON(file);
+  if (!isObject(raw)) return fail(`${file}: Expected an object of values`);
+  Object.entries(raw).forEach(([name, value]) => {
+    if (!/^[FR]\d+$/.test(name)) fail(`${file}: ${name}: Not a register name`);
+    if (typeof value !== "number" || !Number.isFinite(value))
+      fail(`${file}: ${name}: Expected a number`);
+  });
+  return raw as { [key: string]: number };
+};
+
+const STORE_OPS = ["S.D", "S.S", "SW", "SD"];
+
+// Memory values by address, each a double or {"value": n, "op": <store>};
+// an address the program could not store to is rejected like a bad access
+const readMemoryImage = (file: string, config: SystemConfig) => {
+  const raw = readJSON(file);
+  if (!isObject(raw)) return fail(`${file}: Expected an object of values`);
+  return Object.entries(raw).map(([key, entry]) => {
+    const at = `${file}: ${key}`;
+    if (!/^\d+$/.test(key)) return fail(`${at}: Not a memory address`);
+    // A bare number is a double
+    const item =
+      typeof entry === "number" ? { value: entry, op: "S.D" } : entry;
+    if (!isObject(item)) return fail(`${at}: Expected a number or an object`);
+    const { value, op } = item;
+    if (typeof value !== "number" || !Number.isFinite(value))
+      return fail(`${at}: value must be a number`);
+    if (typeof op !== "string" || !STORE_OPS.includes(op))
+      return fail(`${at}: op must be one of ${STORE_OPS.join(", ")}`);
+    const address = Number(key);
+    const fault = checkAccess(address, op, config);
+    if (fault) return fail(`${at}: ${fault}`);
+    return { address, value, op };
+  });
+};
+
+const parseArgs = (argv: string[]) => {
+  const args = {
+    program: "",
+    config: "",
+    registers: "",
+    memory: "",
+    format: "text",
+    log: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--config":
+      case "--registers":
+      case "--memory":
+      case "--format":
+        if (i + 1 >= argv.length) fail(`${arg} needs a value\n\n${USAGE}`);
+        args[arg.slice(2) as "config"] = argv[++i];
+        break;
+      case "--log":
+        args.log = true;
+        break;
+      case "-h":
+      case "--help":
+        console.log(USAGE);
+        process.exit(0);
+      default:
+        if (arg.startsWith("--")) fail(`Unknown option ${arg}\n\n${USAGE}`);
+        args.program = arg;
+    }
+  }
+  if (!args.program) fail(USAGE);
+  if (args.format !== "text" && args.format !== "json")
+    fail(`Unknown format ${args.format}`);
+  return args;
+};
+
+const pad = (value: unknown, width: number) =>
+  String(value ?? "-").padEnd(width);
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+const formatText = (state: SimulationState, mismatches: Mismatch[]) => {
+  const useROB = state.rob.length > 0;
+  const useScoreboard = state.scoreboard.length > 0;
+  const lines: string[] = [];
+  const width = Math.max(12, ...state.instructions.map((i) => i.raw.length));
+
+  lines.push("Instruction Status");
+  lines.push(
+    pad("#", 4) +
+      pad("Instruction", width + 2) +
+      pad("Issue", 7) +
+      (useScoreboard ? pad("Read", 7) : "") +
+      pad("Exec", 10) +
+      pad("Write", 7) +
+      (useROB ? pad("Commit", 7) : "")
+  );
+  state.instructions.forEach((inst) => {
+    const exec =
+      inst.execStartCycle !== null
+        ? `${inst.execStartCycle}-${inst.execEndCycle ?? ""}`
+        : null;
+    lines.push(
+      pad(inst.id, 4) +
+        pad(inst.raw, width + 2) +
+        pad(inst.issueCycle, 7) +
+        (useScoreboard ? pad(inst.readCycle, 7) : "") +
+        pad(exec, 10) +
+        pad(inst.writeCycle, 7) +
+        (useROB ? pad(inst.commitCycle, 7) : "") +
+        (inst.squashed ? "squashed" : "") +
+        (inst.exception && !inst.squashed ? inst.exception : "")
+    );
+  });
+  if (state.trap)
+    lines.push(
+      "",
+      `Halted on an exception in #${state.trap.instId}: ${
+        state.trap.message
+      } (${state.trap.precise ? "precise" : "imprecise"})`
+    );
+
+  lines.push("", "Registers");
+  Object.values(state.registers).forEach((reg) => {
+    lines.push(
+      `${pad(reg.name, 5)}${reg.value}${reg.qi ? ` (${reg.qi})` : ""}`
+    );
+  });
+
+  const summary = getRunSummary(state);
+  lines.push("", "Statistics");
+  lines.push(
+    `Cycles        ${summary.cycles}${
+      summary.finished ? "" : " (not finished)"
+    }`
+  );
+  lines.push(`Instructions  ${summary.instructions}`);
+  lines.push(`IPC           ${summary.ipc.toFixed(3)}`);
+  lines.push(`CPI           ${summary.cpi.toFixed(3)}`);
+  if (summary.squashed > 0) lines.push(`Squashed      ${summary.squashed}`);
+  if (summary.exceptions > 0) lines.push(`Exceptions    ${summary.exceptions}`);
+  summary.caches.forEach((c) =>
+    lines.push(
+      `${pad(c.name, 14)}${c.hits} hits, ${c.misses} misses, ${(
+        c.hitRate * 100
+      ).toFixed(1)}% hit rate, AMAT ${c.amat.toFixed(2)}`
+    )
+  );
+  if (summary.caches.length > 0)
+    lines.push(
+      `MSHRs         ${summary.mshrMerges} merged, ${summary.mshrStalls} stalls`
+    );
+  if (summary.branches.executed > 0)
+    lines.push(
+      `Branches      ${summary.branches.taken}/${summary.branches.executed} taken`
+    );
+  if (summary.branches.predictions > 0)
+    lines.push(
+      `Prediction    ${summary.branches.correct}/${
+        summary.branches.predictions
+      } correct (${(summary.branches.accuracy * 100).toFixed(1)}%)`
+    );
+  lines.push(`CDB busy      ${(summary.cdbUtilization * 100).toFixed(1)}%`);
+  lines.push(
+    `RS busy       ${Object.entries(summary.rsUtilization)
+      .map(([type, u]) => `${type} ${(u * 100).toFixed(1)}%`)
+      .join(", ")}`
+  );
+  const stalls = Object.entries(summary.stallCycles).filter(([, n]) => n > 0);
+  if (stalls.length > 0) {
+    lines.push("Stall cycles");
+    stalls.forEach(([kind, n]) => lines.push(`  ${pad(kind, 14)}${n}`));
+  }
+
+  lines.push(
+    "",
+    mismatches.length === 0
+      ? "Verification: matches the in-order reference model"
+      : `Verification: ${mismatches.length} difference(s) from the in-order reference model`
+  );
+  mismatches.forEach((m) =>
+    lines.push(`  ${pad(m.location, 10)}expected ${m.expected}, got ${m.actual}`)
+  );
+  return lines.join("\n");
+};
+
+const formatJSON = (state: SimulationState, mismatches: Mismatch[]) =>
+  JSON.stringify(
+    {
+      instructions: state.instructions.map((i) => ({
+        id: i.id,
+        line: i.line,
+        instruction: i.raw,
+        issue: i.issueCycle,
+        execStart: i.execStartCycle,
+        execEnd: i.execEndCycle,
+        write: i.writeCycle,
+        commit: i.commitCycle,
+        squashed: i.squashed,
+        exception: i.exception,
+      })),
+      trap: state.trap,
+      registers: Object.fromEntries(
+        Object.values(state.registers).map((r) => [r.name, r.value])
+      ),
+      memory: state.memory,
+      statistics: getRunSummary(state),
+      mismatches,
+    },
+    null,
+    2
+  );
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const args = parseArgs(process.argv.slice(2));
+
+const source = readText(args.program);
+
+const config = args.config ? readConfig(args.config) : DEFAULT_CONFIG;
+
+const registers: { [key: string]: number } = {};
+INITIAL_REGISTERS.forEach((name) => (registers[name] = 0));
+if (args.registers) Object.assign(registers, readRegisters(args.registers));
+
+const { instructions, labels, memory, diagnostics } = parseAssembly(
+  source,
+  Object.keys(registers)
+);
+diagnostics.forEach((d) =>
+  console.error(
+    `${args.program}:${d.line}:${d.column}: ${d.severity}: ${d.message}`
+  )
+);
+if (diagnostics.some((d) => d.severity === "error")) process.exit(1);
+
+// Memory values from the command line go on top of the .data image
+if (args.memory)
+  readMemoryImage(args.memory, config).forEach(({ address, value, op }) =>
+    writeMemory(memory, address, op, value)
+  );
+
+// nextCycle stops by itself at config.maxCycles
+const initial = initializeState(instructions, config, registers, memory);
+let state = initial;
+while (!state.isFinished) state = nextCycle(state, config, labels);
+
+const { mismatches } = verifyRun(initial, state, labels, config);
+console.log(
+  args.format === "json"
+    ? formatJSON(state, mismatches)
+    : formatText(state, mismatches)
+);
+if (args.log) console.log(["", "Log", ...state.log].join("\n"));
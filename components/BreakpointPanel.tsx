@@ -0,0 +1,107 @@
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { Breakpoint } from "../types";
+import { describeBreakpoint } from "../services/breakpoints";
+
+interface Props {
+  breakpoints: Breakpoint[];
+  registerNames: string[];
+  onChange: (breakpoints: Breakpoint[]) => void;
+}
+
+export const BreakpointPanel: React.FC<Props> = ({
+  breakpoints,
+  registerNames,
+  onChange,
+}) => {
+  const [kind, setKind] = useState<Breakpoint["kind"]>("ISSUE");
+  const [target, setTarget] = useState("");
+
+  const addBreakpoint = () => {
+    let bp: Breakpoint | null = null;
+    if (kind === "REGISTER") {
+      const register = (target || registerNames[0]).toUpperCase();
+      if (registerNames.includes(register)) bp = { kind, register };
+    } else {
+      const n = parseInt(target);
+      if (isNaN(n) || n < 0) return;
+      bp = kind === "MEMORY" ? { kind, address: n } : { kind, line: n };
+    }
+    if (!bp) return;
+    // Skip duplicates
+    const key = describeBreakpoint(bp);
+    if (breakpoints.some((b) => describeBreakpoint(b) === key)) return;
+    onChange([...breakpoints, bp]);
+    setTarget("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs uppercase text-gray-500 font-bold">
+        Breakpoints
+      </h3>
+      <div className="flex space-x-2">
+        <select
+          className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs"
+          value={kind}
+          onChange={(e) => {
+            setKind(e.target.value as Breakpoint["kind"]);
+            setTarget("");
+          }}
+        >
+          <option value="ISSUE">Line issues</option>
+          <option value="COMPLETE">Line completes</option>
+          <option value="WRITEBACK">Line writes back</option>
+          <option value="REGISTER">Register changes</option>
+          <option value="MEMORY">Address written</option>
+        </select>
+        {kind === "REGISTER" ? (
+          <select
+            className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs"
+            value={target || registerNames[0]}
+            onChange={(e) => setTarget(e.target.value)}
+          >
+            {registerNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="number"
+            min="0"
+            placeholder={kind === "MEMORY" ? "Address" : "Line"}
+            className="flex-1 w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-right"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addBreakpoint();
+            }}
+          />
+        )}
+        <button
+          onClick={addBreakpoint}
+          className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-xs text-gray-300"
+        >
+          Add
+        </button>
+      </div>
+      {breakpoints.map((bp, i) => (
+        <div
+          key={i}
+          className="flex justify-between items-center bg-gray-900 rounded px-2 py-1 text-xs text-red-300"
+        >
+          <span>● {describeBreakpoint(bp)}</span>
+          <button
+            onClick={() => onChange(breakpoints.filter((_, j) => j !== i))}
+            className="text-gray-500 hover:text-gray-300"
+            title="Remove"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useRef } from "react";
+import { Diagnostic } from "../types";
+
+interface Props {
+  code: string;
+  diagnostics: Diagnostic[];
+  onChange: (code: string) => void;
+}
+
+// Textarea with a line-number gutter that marks lines with diagnostics,
+// and the full diagnostics list underneath
+export const CodeEditor: React.FC<Props> = ({
+  code,
+  diagnostics,
+  onChange,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  const lineCount = code.split("\n").length;
+  const byLine: Record<number, Diagnostic[]> = {};
+  diagnostics.forEach((d) => {
+    (byLine[d.line] = byLine[d.line] || []).push(d);
+  });
+
+  // Moves the caret to the diagnostic's line and column
+  const jumpTo = (d: Diagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lines = code.split("\n");
+    let offset = 0;
+    for (let i = 0; i < d.line - 1 && i < lines.length; i++)
+      offset += lines[i].length + 1;
+    offset += d.column - 1;
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+  };
+
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  const warnings = diagnostics.length - errors;
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 space-y-2">
+      <div className="flex-1 flex min-h-0 bg-gray-800 rounded border border-gray-700 focus-within:border-blue-500 overflow-hidden">
+        <div
+          ref={gutterRef}
+          className="py-3 pl-2 pr-2 overflow-hidden text-right font-mono text-sm leading-5 text-gray-600 select-none bg-gray-900 bg-opacity-50"
+        >
+          {Array.from({ length: lineCount }, (_, i) => {
+            const found = byLine[i + 1];
+            const isError = found?.some((d) => d.severity === "error");
+            return (
+              <div
+                key={i}
+                title={found?.map((d) => d.message).join("\n")}
+                className={
+                  isError
+                    ? "text-red-400 font-bold"
+                    : found
+                    ? "text-yellow-400 font-bold"
+                    : ""
+                }
+              >
+                {found ? "● " : ""}
+                {i + 1}
+              </div>
+            );
+          })}
+        </div>
+        <textarea
+          ref={textareaRef}
+          wrap="off"
+          spellCheck={false}
+          className="flex-1 bg-gray-800 text-gray-300 font-mono text-sm leading-5 p-3 resize-none focus:outline-none"
+          value={code}
+          onScroll={(e) => {
+            if (gutterRef.current)
+              gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      </div>
+      {diagnostics.length > 0 && (
+        <div className="bg-gray-800 rounded border border-gray-700 max-h-32 overflow-y-auto">
+          <div className="px-2 py-1 text-xs text-gray-400 border-b border-gray-700">
+            {errors} error(s), {warnings} warning(s)
+          </div>
+          {diagnostics.map((d, i) => (
+            <button
+              key={i}
+              onClick={() => jumpTo(d)}
+              className="w-full text-left px-2 py-1 text-xs font-mono hover:bg-gray-700 flex space-x-2"
+            >
+              <span className="text-gray-500 whitespace-nowrap">
+                {d.line}:{d.column}
+              </span>
+              <span
+                className={
+                  d.severity === "error" ? "text-red-400" : "text-yellow-400"
+                }
+              >
+                {d.severity}
+              </span>
+              <span className="text-gray-300">{d.message}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
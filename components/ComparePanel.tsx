@@ -0,0 +1,353 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  FastForward,
+  Plus,
+  RotateCcw,
+  SkipBack,
+  SkipForward,
+  Trash2,
+  X,
+} from "lucide-react";
+import { InstructionLine, SimulationState, SystemConfig } from "../types";
+import { SweepProgram, getSweepParameters } from "../services/sweep";
+import {
+  CONFIG_SWITCHES,
+  ComparedRow,
+  TIMING_FIELDS,
+  applyVariant,
+  compareInstructions,
+  startRun,
+  stepRun,
+} from "../services/compare";
+
+interface Props {
+  program: SweepProgram;
+  config: SystemConfig; // Config A; B is A with the changes made here
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<(typeof TIMING_FIELDS)[number], string> = {
+  issueCycle: "Iss",
+  execStartCycle: "Ex.S",
+  execEndCycle: "Ex.E",
+  writeCycle: "Wr",
+  commitCycle: "Com",
+};
+
+const retired = (inst: InstructionLine | null) =>
+  inst ? inst.commitCycle ?? inst.writeCycle : null;
+
+export const ComparePanel: React.FC<Props> = ({ program, config, onClose }) => {
+  const params = useMemo(() => getSweepParameters(config), [config]);
+  const [changes, setChanges] = useState<{ id: string; value: number }[]>([
+    { id: "rsSizes.ADD", value: 1 },
+  ]);
+  const [switches, setSwitches] = useState<{ [id: string]: boolean }>({});
+  // Both runs, one state per cycle; `cursor` is the cycle shown
+  const [runs, setRuns] = useState<{
+    a: SimulationState[];
+    b: SimulationState[];
+  }>({ a: [], b: [] });
+  const [cursor, setCursor] = useState(0);
+
+  const configB = useMemo(
+    () =>
+      applyVariant(config, {
+        values: changes
+          .map((c) => ({
+            param: params.find((p) => p.id === c.id)!,
+            value: c.value,
+          }))
+          .filter((c) => c.param),
+        switches,
+      }),
+    [config, params, changes, switches]
+  );
+
+  // Any change to the program or either config starts over
+  useEffect(() => {
+    setRuns({
+      a: [startRun(program, config)],
+      b: [startRun(program, configB)],
+    });
+    setCursor(0);
+  }, [program, config, configB]);
+
+  const stateA = runs.a[Math.min(cursor, runs.a.length - 1)];
+  const stateB = runs.b[Math.min(cursor, runs.b.length - 1)];
+  const rows = useMemo(
+    () => (stateA && stateB ? compareInstructions(stateA, stateB) : []),
+    [stateA, stateB]
+  );
+  if (!stateA || !stateB) return null;
+  const bothFinished = stateA.isFinished && stateB.isFinished;
+
+  // Steps both runs together, reusing cycles already simulated
+  const advance = (steps: number) => {
+    const a = [...runs.a];
+    const b = [...runs.b];
+    let index = cursor;
+    for (let n = 0; n < steps; n++) {
+      const lastA = a[Math.min(index, a.length - 1)];
+      const lastB = b[Math.min(index, b.length - 1)];
+      if (lastA.isFinished && lastB.isFinished) break;
+      if (index + 1 >= a.length && !lastA.isFinished)
+        a.push(stepRun(lastA, config, program.labels));
+      if (index + 1 >= b.length && !lastB.isFinished)
+        b.push(stepRun(lastB, configB, program.labels));
+      index++;
+    }
+    setRuns({ a, b });
+    setCursor(index);
+  };
+
+  const updateChange = (i: number, change: { id: string; value: number }) =>
+    setChanges(changes.map((c, j) => (j === i ? change : c)));
+
+  const delta = stateB.cycle - stateA.cycle;
+  const divergedCount = rows.filter((r) => r.diverged.length > 0).length;
+
+  const renderSide = (row: ComparedRow, side: "a" | "b") =>
+    TIMING_FIELDS.map((field) => {
+      const inst = row[side];
+      const differs = row.diverged.includes(field);
+      return (
+        <td
+          key={`${side}-${field}`}
+          className={`px-2 py-1 text-center ${
+            differs ? "bg-yellow-900/60 text-yellow-200" : ""
+          } ${field === "issueCycle" ? "border-l border-gray-700" : ""}`}
+        >
+          {inst?.[field] ?? "-"}
+        </td>
+      );
+    });
+
+  const sideSummary = (name: string, state: SimulationState) => (
+    <div className="bg-gray-900 rounded p-2 flex-1">
+      <div className="text-xs uppercase text-gray-500">Config {name}</div>
+      <div className="font-mono text-gray-200">
+        Cycle {state.cycle}
+        {state.isFinished && (
+          <span className="text-green-400 text-xs ml-2">
+            {state.log[state.log.length - 1]}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="h-full overflow-y-auto pb-20 space-y-4">
+      <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-bold text-blue-400">
+            Compare Configurations
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-300"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="text-xs text-gray-500 mb-2">
+          A is the current configuration. B changes:
+        </div>
+        <div className="space-y-1 text-sm max-w-xl">
+          {changes.map((c, i) => (
+            <div key={i} className="flex items-center space-x-2">
+              <select
+                className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                value={c.id}
+                onChange={(e) => updateChange(i, { ...c, id: e.target.value })}
+              >
+                {params.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label} (A: {p.get(config)})
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                className="w-20 bg-gray-900 border border-gray-600 rounded px-2 py-1 font-mono"
+                value={c.value}
+                onChange={(e) =>
+                  updateChange(i, {
+                    ...c,
+                    value: Math.max(1, parseInt(e.target.value) || 1),
+                  })
+                }
+              />
+              <button
+                onClick={() => setChanges(changes.filter((_, j) => j !== i))}
+                className="text-gray-500 hover:text-red-400"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() =>
+              setChanges([...changes, { id: params[0].id, value: 1 }])
+            }
+            className="flex items-center text-xs text-blue-400 hover:text-blue-300"
+          >
+            <Plus className="w-3 h-3 mr-1" /> Add a change
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-4 mt-3 text-sm">
+          {CONFIG_SWITCHES.map((s) => (
+            <label key={s.id} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={s.get(configB)}
+                onChange={(e) =>
+                  setSwitches({ ...switches, [s.id]: e.target.checked })
+                }
+              />
+              <span
+                className={
+                  s.get(configB) !== s.get(config)
+                    ? "text-yellow-300"
+                    : "text-gray-300"
+                }
+              >
+                {s.label}
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
+        <div className="flex items-center space-x-2 mb-3">
+          <button
+            onClick={() => setCursor(0)}
+            className="bg-gray-700 hover:bg-gray-600 p-2 rounded"
+            title="Back to cycle 0"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setCursor(Math.max(0, cursor - 1))}
+            disabled={cursor === 0}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 p-2 rounded"
+            title="Previous cycle"
+          >
+            <SkipBack className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => advance(1)}
+            disabled={bothFinished}
+            className="bg-blue-700 hover:bg-blue-600 disabled:opacity-40 p-2 rounded"
+            title="Next cycle"
+          >
+            <SkipForward className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => advance(Infinity)}
+            disabled={bothFinished}
+            className="bg-green-700 hover:bg-green-600 disabled:opacity-40 p-2 rounded"
+            title="Run both to the end"
+          >
+            <FastForward className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex space-x-2 mb-3">
+          {sideSummary("A", stateA)}
+          {sideSummary("B", stateB)}
+        </div>
+        {bothFinished ? (
+          <div className="text-sm mb-3">
+            {delta === 0 ? (
+              <span className="text-gray-300">Both take the same time.</span>
+            ) : (
+              <span className={delta < 0 ? "text-green-400" : "text-red-400"}>
+                B takes {Math.abs(delta)} cycle(s){" "}
+                {delta < 0 ? "fewer" : "more"} than A ({stateB.cycle} vs{" "}
+                {stateA.cycle}).
+              </span>
+            )}
+          </div>
+        ) : (
+          <div className="text-xs text-gray-500 mb-3">
+            {divergedCount} instruction(s) with different timings so far.
+          </div>
+        )}
+
+        <div className="overflow-auto">
+          <table className="w-full text-sm font-mono text-gray-200">
+            <thead className="text-xs text-gray-400">
+              <tr>
+                <th />
+                <th colSpan={5} className="border-l border-gray-700">
+                  A
+                </th>
+                <th colSpan={5} className="border-l border-gray-700">
+                  B
+                </th>
+                <th className="border-l border-gray-700" />
+              </tr>
+              <tr>
+                <th className="px-2 py-1 text-left">Instruction</th>
+                {(["a", "b"] as const).flatMap((side) =>
+                  TIMING_FIELDS.map((f) => (
+                    <th
+                      key={`${side}-${f}`}
+                      className={`px-2 py-1 ${
+                        f === "issueCycle" ? "border-l border-gray-700" : ""
+                      }`}
+                    >
+                      {FIELD_LABELS[f]}
+                    </th>
+                  ))
+                )}
+                <th className="px-2 py-1 border-l border-gray-700">Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const ra = retired(row.a);
+                const rb = retired(row.b);
+                const d = ra !== null && rb !== null ? rb - ra : null;
+                return (
+                  <tr
+                    key={row.key}
+                    className={`border-t border-gray-700 ${
+                      row.diverged.length > 0 ? "bg-gray-700/40" : ""
+                    }`}
+                  >
+                    <td className="px-2 py-1 text-blue-300 whitespace-nowrap">
+                      {(row.a ?? row.b)!.raw}
+                    </td>
+                    {renderSide(row, "a")}
+                    {renderSide(row, "b")}
+                    <td
+                      className={`px-2 py-1 text-center border-l border-gray-700 ${
+                        d === null || d === 0
+                          ? "text-gray-500"
+                          : d < 0
+                          ? "text-green-400"
+                          : "text-red-400"
+                      }`}
+                    >
+                      {d === null ? "" : d > 0 ? `+${d}` : d}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <div className="text-xs text-gray-500 mt-2">
+          Δ is how much later B retires the instruction. Squashed instructions
+          are left out.
+        </div>
+      </div>
+    </div>
+  );
+};
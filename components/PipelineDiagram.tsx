@@ -0,0 +1,111 @@
+import React, { useMemo } from "react";
+import { PipelineStage, SimulationState } from "../types";
+import { buildPipelineDiagram } from "../services/pipeline";
+
+interface Props {
+  history: SimulationState[]; // Snapshots up to the displayed cycle
+}
+
+const STAGES: Record<
+  PipelineStage,
+  { label: string; short: string; className: string }
+> = {
+  ISSUE: { label: "Issue", short: "I", className: "bg-blue-600" },
+  OPERANDS: {
+    label: "Waiting on operands",
+    short: "·",
+    className: "bg-yellow-700/60",
+  },
+  READ: { label: "Read operands", short: "R", className: "bg-sky-700" },
+  EXECUTE: { label: "Execute", short: "E", className: "bg-green-600" },
+  MISS: { label: "Cache miss", short: "M", className: "bg-red-600" },
+  WRITE: { label: "Write (CDB)", short: "W", className: "bg-purple-600" },
+  COMMIT: { label: "Commit", short: "C", className: "bg-teal-500" },
+  STALL: { label: "Stalled", short: "·", className: "bg-gray-600" },
+};
+
+export const PipelineDiagram: React.FC<Props> = ({ history }) => {
+  const rows = useMemo(() => buildPipelineDiagram(history), [history]);
+  const cycles = history.length - 1;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700 col-span-1 xl:col-span-2">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-bold text-blue-400">Pipeline Diagram</h3>
+        <div className="flex flex-wrap gap-3 text-xs text-gray-400">
+          {Object.values(STAGES).map((s) => (
+            <span key={s.label} className="flex items-center">
+              <span className={`w-3 h-3 rounded-sm mr-1 ${s.className}`} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      {rows.length === 0 ? (
+        <div className="text-xs text-gray-500 italic">
+          Nothing issued yet.
+        </div>
+      ) : (
+        <div className="overflow-auto max-h-96">
+          <table className="text-xs text-gray-300 border-separate border-spacing-0">
+            <thead>
+              <tr>
+                <th className="sticky left-0 top-0 z-20 bg-gray-700 px-2 py-1 text-left text-gray-400 uppercase">
+                  Inst
+                </th>
+                {Array.from({ length: cycles }, (_, i) => (
+                  <th
+                    key={i}
+                    className={`sticky top-0 z-10 w-6 min-w-[1.5rem] py-1 text-center font-mono ${
+                      i + 1 === cycles
+                        ? "bg-blue-900 text-blue-200"
+                        : "bg-gray-700 text-gray-400"
+                    }`}
+                  >
+                    {i + 1}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ inst, cells }) => (
+                <tr key={inst.id}>
+                  <td
+                    className={`sticky left-0 z-10 bg-gray-800 px-2 py-0.5 font-mono whitespace-nowrap border-b border-gray-700 ${
+                      inst.squashed ? "line-through text-gray-500" : ""
+                    }`}
+                    title={inst.squashed ? "Squashed (mispredicted path)" : ""}
+                  >
+                    {inst.raw}
+                  </td>
+                  {Array.from({ length: cycles }, (_, i) => {
+                    const cell = cells[i + 1];
+                    return (
+                      <td
+                        key={i}
+                        className="p-px border-b border-gray-700"
+                        title={
+                          cell ? `Cycle ${i + 1}: ${cell.reason}` : undefined
+                        }
+                      >
+                        {cell && (
+                          <div
+                            className={`h-5 rounded-sm text-center leading-5 text-white font-bold ${
+                              STAGES[cell.stage].className
+                            } ${inst.squashed ? "opacity-40" : ""}`}
+                          >
+                            {STAGES[cell.stage].short}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
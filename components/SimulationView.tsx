@@ -1,15 +1,40 @@
 import React from "react";
-import { SimulationState, ReservationStation, Register } from "../types";
+import {
+  SimulationState,
+  ReservationStation,
+  Register,
+  BranchStats,
+  CacheState,
+  Mismatch,
+  StallKind,
+} from "../types";
+import { getHierarchyStats } from "../services/cache";
+import { readMemory } from "../services/memory";
+import { PipelineDiagram } from "./PipelineDiagram";
+import { StatisticsPanel } from "./StatisticsPanel";
 
 interface Props {
   state: SimulationState;
+  memorySize: number;
   onUpdateRegister?: (name: string, value: number) => void;
+  onUpdateMemory?: (address: number, value: number, op: string) => void;
+  // Golden-model comparison, only once the run has finished
+  verification?: { mismatches: Mismatch[]; fault: string | null } | null;
+  // Snapshots up to this state, for the pipeline diagram and charts
+  history?: SimulationState[];
 }
 
 export const SimulationView: React.FC<Props> = ({
   state,
+  memorySize,
   onUpdateRegister,
+  onUpdateMemory,
+  verification,
+  history,
 }) => {
+  const [memoryView, setMemoryView] = React.useState<"DOUBLE" | "FLOAT">(
+    "DOUBLE"
+  );
   const addStations = state.reservationStations.filter(
     (rs) => rs.type === "ADD"
   );
@@ -25,6 +50,97 @@ export const SimulationView: React.FC<Props> = ({
   const storeBuffers = state.reservationStations.filter(
     (rs) => rs.type === "STORE"
   );
+  const useROB = state.rob.length > 0;
+  const usePRF = state.physicalRegisters.length > 0;
+  const trapInst = state.instructions.find((i) => i.id === state.trap?.instId);
+  const useScoreboard = state.scoreboard.length > 0;
+  // Issue stalls of instructions that are not in the table yet
+  const issueStalls = state.stalls.filter(
+    (st) =>
+      st.instId === null ||
+      !state.instructions.some((i) => i.id === st.instId)
+  );
+  const branchStats = Object.values(state.predictor.stats);
+
+  const stallColors: Record<StallKind, string> = {
+    STRUCTURAL: "text-orange-300",
+    RAW: "text-yellow-300",
+    BASE_REGISTER: "text-yellow-300",
+    MEMORY_ORDER: "text-pink-300",
+    BRANCH: "text-blue-300",
+    CDB: "text-purple-300",
+    CACHE: "text-red-300",
+    WAR: "text-amber-300",
+    WAW: "text-amber-300",
+  };
+
+  // Before the address step, 'a' is still the offset added to the base (Vj/Qj)
+  const formatAddress = (rs: ReservationStation) => {
+    if (rs.a === null) return "";
+    if (rs.addrReady) return rs.a;
+    return `${rs.a} + ${rs.qj ?? (rs.vj !== null ? rs.vj : "")}`;
+  };
+
+  const renderCacheTable = (cache: CacheState) => (
+    <div
+      key={cache.name}
+      className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700"
+    >
+      <div className="flex justify-between items-baseline mb-2">
+        <h3 className="text-lg font-bold text-orange-400">
+          {cache.name} Data Cache
+        </h3>
+        <span className="text-xs text-gray-400 font-mono">
+          {cache.sets.length} sets x {cache.sets[0] ? cache.sets[0].length : 0}{" "}
+          ways
+        </span>
+      </div>
+      <div className="overflow-x-auto max-h-48">
+        <table className="w-full text-sm text-left text-gray-300">
+          <thead className="text-xs text-gray-400 uppercase bg-gray-700">
+            <tr>
+              <th className="px-2 py-1">Set</th>
+              {cache.sets[0] &&
+                cache.sets[0].map((_, way) => (
+                  <th key={way} className="px-2 py-1">
+                    Way {way} (V D Tag)
+                  </th>
+                ))}
+            </tr>
+          </thead>
+          <tbody>
+            {cache.sets.map((set, setIdx) => (
+              <tr
+                key={setIdx}
+                className="border-b border-gray-700 font-mono text-xs"
+              >
+                <td className="px-2 py-1 font-bold">{setIdx}</td>
+                {set.map((block, way) => (
+                  <td
+                    key={way}
+                    className={`px-2 py-1 ${
+                      block.valid ? "" : "text-gray-600"
+                    }`}
+                    title={
+                      block.valid
+                        ? `Last access: ${block.lastAccess}, filled: ${block.insertedAt}`
+                        : "Invalid"
+                    }
+                  >
+                    {block.valid ? "1" : "0"}{" "}
+                    <span className={block.dirty ? "text-red-400" : undefined}>
+                      {block.dirty ? "1" : "0"}
+                    </span>{" "}
+                    {block.valid ? block.tag : "-"}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
 
   const renderRSTable = (
     stations: ReservationStation[],
@@ -80,35 +196,134 @@ export const SimulationView: React.FC<Props> = ({
 
   return (
     <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 h-full overflow-y-auto pb-20">
+      {/* Exception that halted the run */}
+      {state.trap && (
+        <div className="p-4 rounded-lg shadow border col-span-1 xl:col-span-2 bg-red-900 bg-opacity-30 border-red-700">
+          <div className="text-sm text-red-300 font-bold">
+            Exception in #{state.trap.instId} ({trapInst?.raw}):{" "}
+            {state.trap.message}
+          </div>
+          <div className="text-xs text-gray-300 mt-1">
+            {state.trap.precise
+              ? "Precise: registers and memory show the state just before this instruction."
+              : "Imprecise: some older instructions had not completed, or younger ones had already written their results."}
+          </div>
+        </div>
+      )}
+
+      {/* Verification against the in-order golden model */}
+      {verification && (
+        <div
+          className={`p-4 rounded-lg shadow border col-span-1 xl:col-span-2 ${
+            verification.mismatches.length === 0
+              ? "bg-green-900 bg-opacity-30 border-green-700"
+              : "bg-red-900 bg-opacity-30 border-red-700"
+          }`}
+        >
+          {verification.mismatches.length === 0 ? (
+            <div className="text-sm text-green-300 font-bold">
+              ✓ Final registers and memory match the in-order reference model.
+            </div>
+          ) : (
+            <>
+              <div className="text-sm text-red-300 font-bold mb-2">
+                ✗ {verification.mismatches.length} difference(s) from the
+                in-order reference model
+              </div>
+              <table className="w-full text-xs text-left text-gray-300 font-mono">
+                <thead className="text-gray-400 uppercase">
+                  <tr>
+                    <th className="px-2 py-1">Location</th>
+                    <th className="px-2 py-1">Expected</th>
+                    <th className="px-2 py-1">Tomasulo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {verification.mismatches.map((m) => (
+                    <tr key={m.location} className="border-t border-red-800">
+                      <td className="px-2 py-1 font-bold">{m.location}</td>
+                      <td className="px-2 py-1 text-green-300">{m.expected}</td>
+                      <td className="px-2 py-1 text-red-300">{m.actual}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+          {verification.fault && (
+            <div className="text-xs text-yellow-300 mt-2">
+              Reference model stopped early: {verification.fault}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Statistics */}
+      <StatisticsPanel state={state} history={history} />
+
       {/* Instruction Queue / Status */}
       <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700 col-span-1 xl:col-span-2">
         <h3 className="text-lg font-bold text-blue-400 mb-2">
           Instruction Status
         </h3>
+        {issueStalls.map((st, i) => (
+          <div key={i} className={`text-xs mb-2 ${stallColors[st.kind]}`}>
+            Issue stalled: {st.message}
+          </div>
+        ))}
         <div className="overflow-x-auto">
           <table className="w-full text-sm text-left text-gray-300">
             <thead className="text-xs text-gray-400 uppercase bg-gray-700">
               <tr>
                 <th className="px-3 py-2">Inst</th>
                 <th className="px-3 py-2">Issue</th>
+                {useScoreboard && <th className="px-3 py-2">Read Ops</th>}
                 <th className="px-3 py-2">Exec Start</th>
                 <th className="px-3 py-2">Exec Comp</th>
                 <th className="px-3 py-2">Write Result</th>
+                {useROB && <th className="px-3 py-2">Commit</th>}
+                <th className="px-3 py-2">Stall (this cycle)</th>
               </tr>
             </thead>
             <tbody>
               {state.instructions.map((inst) => (
                 <tr
                   key={inst.id}
-                  className="border-b border-gray-700 hover:bg-gray-700/50"
+                  className={`border-b border-gray-700 hover:bg-gray-700/50 ${
+                    inst.squashed ? "line-through text-gray-500" : ""
+                  }`}
+                  title={inst.squashed ? "Squashed (mispredicted path)" : ""}
                 >
                   <td className="px-3 py-2 font-mono whitespace-nowrap">
                     {inst.raw}
+                    {inst.exception && (
+                      <div
+                        className="text-xs text-red-400 font-sans"
+                        title={inst.exception}
+                      >
+                        ⚠ {inst.exception}
+                      </div>
+                    )}
                   </td>
                   <td className="px-3 py-2">{inst.issueCycle ?? ""}</td>
+                  {useScoreboard && (
+                    <td className="px-3 py-2">{inst.readCycle ?? ""}</td>
+                  )}
                   <td className="px-3 py-2">{inst.execStartCycle ?? ""}</td>
                   <td className="px-3 py-2">{inst.execEndCycle ?? ""}</td>
                   <td className="px-3 py-2">{inst.writeCycle ?? ""}</td>
+                  {useROB && (
+                    <td className="px-3 py-2">{inst.commitCycle ?? ""}</td>
+                  )}
+                  <td className="px-3 py-2 text-xs">
+                    {state.stalls
+                      .filter((st) => st.instId === inst.id)
+                      .map((st, i) => (
+                        <div key={i} className={stallColors[st.kind]}>
+                          {st.message}
+                        </div>
+                      ))}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -116,20 +331,14 @@ export const SimulationView: React.FC<Props> = ({
         </div>
       </div>
 
-      {/* Reservation Stations Area */}
-      <div className="col-span-1 xl:col-span-2 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {renderRSTable(addStations, "FP Adder RS", "text-green-400")}
-        {renderRSTable(multStations, "FP Mult/Div RS", "text-green-400")}
-        {renderRSTable(
-          integerStations,
-          "Integer RS (Addr/Branch)",
-          "text-indigo-400"
-        )}
+      {/* Pipeline Diagram */}
+      {history && <PipelineDiagram history={history} />}
 
-        {/* Load Buffers - Specific Columns */}
-        <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
-          <h3 className="text-sm font-bold text-yellow-400 mb-2">
-            Load Buffers
+      {/* Scoreboard */}
+      {useScoreboard && (
+        <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700 col-span-1 xl:col-span-2">
+          <h3 className="text-lg font-bold text-green-400 mb-2">
+            Functional Unit Status
           </h3>
           <div className="overflow-x-auto">
             <table className="w-full text-xs text-left text-gray-300">
@@ -138,86 +347,408 @@ export const SimulationView: React.FC<Props> = ({
                   <th className="px-2 py-1">Time</th>
                   <th className="px-2 py-1">Name</th>
                   <th className="px-2 py-1">Busy</th>
-                  <th className="px-2 py-1">Address</th>
+                  <th className="px-2 py-1">Op</th>
+                  <th className="px-2 py-1">Fi</th>
+                  <th className="px-2 py-1">Fj</th>
+                  <th className="px-2 py-1">Fk</th>
+                  <th className="px-2 py-1">Qj</th>
+                  <th className="px-2 py-1">Qk</th>
+                  <th className="px-2 py-1">Rj</th>
+                  <th className="px-2 py-1">Rk</th>
                 </tr>
               </thead>
               <tbody>
-                {loadBuffers.map((rs) => (
-                  <tr
-                    key={rs.id}
-                    className="border-b border-gray-700 font-mono"
-                  >
-                    <td className="px-2 py-1 text-yellow-500">
-                      {rs.busy ? rs.timeLeft : ""}
-                    </td>
-                    <td className="px-2 py-1 font-bold">{rs.id}</td>
-                    <td
-                      className={`px-2 py-1 ${
-                        rs.busy ? "text-red-400" : "text-green-400"
-                      }`}
+                {state.scoreboard.map((unit) => {
+                  const inst = state.instructions.find(
+                    (i) => i.id === unit.instId
+                  );
+                  return (
+                    <tr
+                      key={unit.id}
+                      className="border-b border-gray-700 font-mono"
                     >
-                      {rs.busy ? "Yes" : "No"}
-                    </td>
-                    {/* Display 'a' which initially holds offset, then calculated address */}
-                    <td className="px-2 py-1">
-                      {rs.busy ? (rs.a !== null ? rs.a : "") : ""}
-                    </td>
-                  </tr>
-                ))}
+                      <td className="px-2 py-1 text-yellow-500">
+                        {inst &&
+                        inst.readCycle !== null &&
+                        inst.execEndCycle === null
+                          ? unit.timeLeft
+                          : ""}
+                      </td>
+                      <td className="px-2 py-1 font-bold">{unit.id}</td>
+                      <td
+                        className={`px-2 py-1 ${
+                          unit.busy ? "text-red-400" : "text-green-400"
+                        }`}
+                      >
+                        {unit.busy ? "Yes" : "No"}
+                      </td>
+                      <td className="px-2 py-1">{unit.op || ""}</td>
+                      <td className="px-2 py-1">{unit.fi || ""}</td>
+                      <td className="px-2 py-1">{unit.fj || ""}</td>
+                      <td className="px-2 py-1">{unit.fk || ""}</td>
+                      <td className="px-2 py-1 text-blue-300">
+                        {unit.qj || ""}
+                      </td>
+                      <td className="px-2 py-1 text-blue-300">
+                        {unit.qk || ""}
+                      </td>
+                      <td className="px-2 py-1">
+                        {unit.busy && unit.fj ? (unit.rj ? "Yes" : "No") : ""}
+                      </td>
+                      <td className="px-2 py-1">
+                        {unit.busy && unit.fk ? (unit.rk ? "Yes" : "No") : ""}
+                      </td>
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
+          <h4 className="text-sm font-bold text-gray-400 mt-3 mb-1">
+            Register Result Status
+          </h4>
+          <div className="flex flex-wrap gap-2 text-xs font-mono">
+            {Object.values(state.registers)
+              .filter((reg) => reg.qi)
+              .map((reg) => (
+                <span
+                  key={reg.name}
+                  className="px-2 py-1 rounded border border-gray-700"
+                >
+                  {reg.name}: <span className="text-blue-300">{reg.qi}</span>
+                </span>
+              ))}
+            {Object.values(state.registers).every((reg) => !reg.qi) && (
+              <span className="text-gray-500">No pending writes</span>
+            )}
+          </div>
         </div>
+      )}
 
-        {/* Store Buffers - Specific Columns: Busy, Address, V, Q */}
-        <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
-          <h3 className="text-sm font-bold text-yellow-400 mb-2">
-            Store Buffers
+      {/* Reorder Buffer */}
+      {useROB && (
+        <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700 col-span-1 xl:col-span-2">
+          <h3 className="text-lg font-bold text-pink-400 mb-2">
+            Reorder Buffer
           </h3>
           <div className="overflow-x-auto">
             <table className="w-full text-xs text-left text-gray-300">
               <thead className="text-gray-400 uppercase bg-gray-700">
                 <tr>
-                  <th className="px-2 py-1">Time</th>
-                  <th className="px-2 py-1">Name</th>
+                  <th className="px-2 py-1"></th>
+                  <th className="px-2 py-1">Entry</th>
                   <th className="px-2 py-1">Busy</th>
-                  <th className="px-2 py-1">Address</th>
-                  <th className="px-2 py-1">V</th>
-                  <th className="px-2 py-1">Q</th>
+                  <th className="px-2 py-1">Instruction</th>
+                  <th className="px-2 py-1">State</th>
+                  <th className="px-2 py-1">Destination</th>
+                  {usePRF && <th className="px-2 py-1">Phys</th>}
+                  {usePRF && <th className="px-2 py-1">Old</th>}
+                  <th className="px-2 py-1">Value</th>
                 </tr>
               </thead>
               <tbody>
-                {storeBuffers.map((rs) => (
-                  <tr
-                    key={rs.id}
-                    className="border-b border-gray-700 font-mono"
-                  >
-                    <td className="px-2 py-1 text-yellow-500">
-                      {rs.busy ? rs.timeLeft : ""}
-                    </td>
-                    <td className="px-2 py-1 font-bold">{rs.id}</td>
-                    <td
-                      className={`px-2 py-1 ${
-                        rs.busy ? "text-red-400" : "text-green-400"
-                      }`}
+                {state.rob.map((entry, idx) => {
+                  const inst = state.instructions.find(
+                    (i) => i.id === entry.instId
+                  );
+                  return (
+                    <tr
+                      key={entry.id}
+                      className="border-b border-gray-700 font-mono"
                     >
-                      {rs.busy ? "Yes" : "No"}
-                    </td>
-                    <td className="px-2 py-1">
-                      {rs.busy ? (rs.a !== null ? rs.a : "") : ""}
-                    </td>
-                    {/* In Store RS, the value to store is typically in Vk (Src2) */}
-                    <td className="px-2 py-1">
-                      {rs.vk !== null ? rs.vk.toFixed(2) : ""}
-                    </td>
-                    <td className="px-2 py-1 text-blue-300">{rs.qk || ""}</td>
-                  </tr>
-                ))}
+                      <td className="px-2 py-1 text-pink-400 font-bold">
+                        {idx === state.robHead ? "Head" : ""}
+                        {idx === state.robTail && idx !== state.robHead
+                          ? "Tail"
+                          : ""}
+                      </td>
+                      <td className="px-2 py-1 font-bold">{entry.id}</td>
+                      <td
+                        className={`px-2 py-1 ${
+                          entry.busy ? "text-red-400" : "text-green-400"
+                        }`}
+                      >
+                        {entry.busy ? "Yes" : "No"}
+                      </td>
+                      <td className="px-2 py-1 whitespace-nowrap">
+                        {inst ? inst.raw : ""}
+                      </td>
+                      <td className="px-2 py-1">
+                        {entry.instId !== null ? entry.state : ""}
+                      </td>
+                      <td className="px-2 py-1">
+                        {entry.type === "STORE"
+                          ? entry.address !== null
+                            ? `Mem[${entry.address}]`
+                            : ""
+                          : entry.dest || ""}
+                      </td>
+                      {usePRF && (
+                        <td className="px-2 py-1 text-teal-300">
+                          {entry.physical || ""}
+                        </td>
+                      )}
+                      {usePRF && (
+                        <td className="px-2 py-1 text-gray-500">
+                          {entry.previous || ""}
+                        </td>
+                      )}
+                      <td className="px-2 py-1">
+                        {entry.ready && entry.value !== null
+                          ? entry.value.toFixed(2)
+                          : ""}
+                      </td>
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
         </div>
-      </div>
+      )}
+
+      {/* Register Renaming */}
+      {usePRF && (
+        <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700 col-span-1 xl:col-span-2">
+          <h3 className="text-lg font-bold text-teal-400 mb-2">
+            Register Renaming
+          </h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-sm font-bold text-gray-400 mb-1">
+                Register Alias Table
+              </h4>
+              <div className="grid grid-cols-4 gap-1 text-xs font-mono">
+                {Object.keys(state.rat).map((reg) => (
+                  <div
+                    key={reg}
+                    className="bg-gray-900 px-2 py-1 rounded border border-gray-700"
+                  >
+                    <span className="text-gray-400">{reg}</span> →{" "}
+                    <span className="text-teal-300">{state.rat[reg]}</span>
+                  </div>
+                ))}
+              </div>
+              <h4 className="text-sm font-bold text-gray-400 mt-3 mb-1">
+                Free List ({state.freeList.length})
+              </h4>
+              <div className="text-xs font-mono text-gray-300 break-words">
+                {state.freeList.length > 0 ? state.freeList.join(" ") : "Empty"}
+              </div>
+            </div>
+            <div>
+              <h4 className="text-sm font-bold text-gray-400 mb-1">
+                Physical Register File
+              </h4>
+              <div className="grid grid-cols-4 gap-1 text-xs font-mono max-h-48 overflow-y-auto">
+                {state.physicalRegisters.map((p) => {
+                  const free = state.freeList.includes(p.name);
+                  return (
+                    <div
+                      key={p.name}
+                      className={`px-2 py-1 rounded border ${
+                        free
+                          ? "bg-gray-900 border-gray-800 text-gray-600"
+                          : p.ready
+                          ? "bg-gray-900 border-gray-700 text-green-400"
+                          : "bg-gray-900 border-yellow-700 text-yellow-400"
+                      }`}
+                      title={free ? "Free" : p.ready ? "Ready" : "Pending"}
+                    >
+                      <div className="font-bold">{p.name}</div>
+                      <div className="truncate">
+                        {free ? "free" : p.ready ? p.value : "pending"}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Tomasulo hardware; the scoreboard has its own table above */}
+      {!useScoreboard && (
+        <>
+          {/* Common Data Bus */}
+          <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700 col-span-1 xl:col-span-2">
+            <h3 className="text-lg font-bold text-purple-400 mb-2">
+              Common Data Bus{state.cdb.length > 1 ? "es" : ""}
+            </h3>
+            <div className="flex flex-wrap gap-2 text-xs font-mono">
+              {state.cdb.map((bus, i) => (
+                <div
+                  key={i}
+                  className={`px-3 py-1 rounded border ${
+                    bus
+                      ? "border-purple-500 bg-purple-900 bg-opacity-30 text-purple-200"
+                      : "border-gray-700 text-gray-500"
+                  }`}
+                >
+                  CDB{i + 1}:{" "}
+                  {bus
+                    ? `${bus.source} → ${bus.value}` +
+                      (bus.tag !== bus.source ? ` (tag ${bus.tag})` : "")
+                    : "idle"}
+                </div>
+              ))}
+            </div>
+            {state.stalls
+              .filter((st) => st.kind === "CDB")
+              .map((st, i) => {
+                const inst = state.instructions.find((x) => x.id === st.instId);
+                return (
+                  <div key={i} className="text-xs text-purple-300 mt-1">
+                    {inst?.raw}: {st.message}
+                  </div>
+                );
+              })}
+          </div>
+
+          {/* Reservation Stations Area */}
+          <div className="col-span-1 xl:col-span-2 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {renderRSTable(addStations, "FP Adder RS", "text-green-400")}
+            {renderRSTable(multStations, "FP Mult/Div RS", "text-green-400")}
+            {renderRSTable(
+              integerStations,
+              "Integer RS (Addr/Branch)",
+              "text-indigo-400"
+            )}
+
+            {/* Load Buffers - Specific Columns */}
+            <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
+              <h3 className="text-sm font-bold text-yellow-400 mb-2">
+                Load Buffers
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs text-left text-gray-300">
+                  <thead className="text-gray-400 uppercase bg-gray-700">
+                    <tr>
+                      <th className="px-2 py-1">Time</th>
+                      <th className="px-2 py-1">Name</th>
+                      <th className="px-2 py-1">Busy</th>
+                      <th className="px-2 py-1">Address</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {loadBuffers.map((rs) => (
+                      <tr
+                        key={rs.id}
+                        className="border-b border-gray-700 font-mono"
+                      >
+                        <td className="px-2 py-1 text-yellow-500">
+                          {rs.busy ? rs.timeLeft : ""}
+                        </td>
+                        <td className="px-2 py-1 font-bold">{rs.id}</td>
+                        <td
+                          className={`px-2 py-1 ${
+                            rs.busy ? "text-red-400" : "text-green-400"
+                          }`}
+                        >
+                          {rs.busy ? "Yes" : "No"}
+                        </td>
+                        {/* Display 'a' which initially holds offset, then calculated address */}
+                        <td className="px-2 py-1">
+                          {rs.busy ? formatAddress(rs) : ""}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Store Buffers - Specific Columns: Busy, Address, V, Q */}
+            <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
+              <h3 className="text-sm font-bold text-yellow-400 mb-2">
+                Store Buffers
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs text-left text-gray-300">
+                  <thead className="text-gray-400 uppercase bg-gray-700">
+                    <tr>
+                      <th className="px-2 py-1">Time</th>
+                      <th className="px-2 py-1">Name</th>
+                      <th className="px-2 py-1">Busy</th>
+                      <th className="px-2 py-1">Address</th>
+                      <th className="px-2 py-1">V</th>
+                      <th className="px-2 py-1">Q</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {storeBuffers.map((rs) => (
+                      <tr
+                        key={rs.id}
+                        className="border-b border-gray-700 font-mono"
+                      >
+                        <td className="px-2 py-1 text-yellow-500">
+                          {rs.busy ? rs.timeLeft : ""}
+                        </td>
+                        <td className="px-2 py-1 font-bold">{rs.id}</td>
+                        <td
+                          className={`px-2 py-1 ${
+                            rs.busy ? "text-red-400" : "text-green-400"
+                          }`}
+                        >
+                          {rs.busy ? "Yes" : "No"}
+                        </td>
+                        <td className="px-2 py-1">
+                          {rs.busy ? formatAddress(rs) : ""}
+                        </td>
+                        {/* In Store RS, the value to store is typically in Vk (Src2) */}
+                        <td className="px-2 py-1">
+                          {rs.vk !== null ? rs.vk.toFixed(2) : ""}
+                        </td>
+                        <td className="px-2 py-1 text-blue-300">
+                          {rs.qk || ""}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+
+          {/* Functional Units */}
+          <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700 col-span-1 xl:col-span-2">
+            <h3 className="text-lg font-bold text-green-400 mb-2">
+              Functional Units
+            </h3>
+            <div className="flex flex-wrap gap-2 text-xs font-mono">
+              {state.functionalUnits.map((unit) => (
+                <div
+                  key={unit.id}
+                  className={`px-3 py-1 rounded border ${
+                    unit.ops.length > 0
+                      ? "border-green-600 bg-green-900 bg-opacity-30 text-green-200"
+                      : "border-gray-700 text-gray-500"
+                  }`}
+                  title={unit.pipelined ? "Pipelined" : "Not pipelined"}
+                >
+                  <span className="font-bold">{unit.id}</span>
+                  {!unit.pipelined && (
+                    <span className="text-gray-500">*</span>
+                  )}:{" "}
+                  {unit.ops.length > 0
+                    ? unit.ops
+                        .map(
+                          (op) =>
+                            `${op.rsId} #${op.instId} (${op.startCycle}-${op.endCycle})`
+                        )
+                        .join(", ")
+                    : "idle"}
+                </div>
+              ))}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              Operations with their first and last execute cycle; * marks a unit
+              that is not pipelined.
+            </div>
+          </div>
+        </>
+      )}
 
       {/* Registers & Cache */}
       <div className="space-y-4 col-span-1 xl:col-span-1">
@@ -261,44 +792,215 @@ export const SimulationView: React.FC<Props> = ({
             ))}
           </div>
         </div>
+
+        <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-lg font-bold text-purple-400">Memory</h3>
+            <select
+              className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs"
+              value={memoryView}
+              onChange={(e) =>
+                setMemoryView(e.target.value as "DOUBLE" | "FLOAT")
+              }
+            >
+              <option value="DOUBLE">Double</option>
+              <option value="FLOAT">Float</option>
+            </select>
+          </div>
+          <p className="text-xs text-gray-500 mb-2">
+            Little-endian, {memorySize} bytes. Cycle 0: Click values to edit.
+          </p>
+          <div className="h-48 overflow-y-auto">
+            <table className="w-full text-xs text-left text-gray-300 font-mono">
+              <tbody>
+                {Array.from(
+                  { length: Math.floor(memorySize / 8) },
+                  (_, i) => i * 8
+                ).map((addr) => {
+                  const words =
+                    memoryView === "DOUBLE"
+                      ? [{ addr, load: "L.D", store: "S.D" }]
+                      : [
+                          { addr, load: "L.S", store: "S.S" },
+                          { addr: addr + 4, load: "L.S", store: "S.S" },
+                        ];
+                  return (
+                    <tr key={addr} className="border-b border-gray-700">
+                      <td className="px-2 py-1 text-gray-500">{addr}</td>
+                      <td className="px-2 py-1 whitespace-nowrap">
+                        {Array.from({ length: 8 }, (_, b) => {
+                          const byte = state.memory[addr + b] || 0;
+                          return (
+                            <span
+                              key={b}
+                              className={
+                                byte ? "text-yellow-300" : "text-gray-600"
+                              }
+                            >
+                              {byte.toString(16).padStart(2, "0")}{" "}
+                            </span>
+                          );
+                        })}
+                      </td>
+                      {words.map((w) => (
+                        <td key={w.addr} className="px-2 py-1">
+                          {state.cycle === 0 && onUpdateMemory ? (
+                            <input
+                              type="number"
+                              className="w-full bg-gray-900 text-green-400 text-right border border-gray-600 rounded focus:outline-none focus:border-green-500"
+                              value={readMemory(state.memory, w.addr, w.load)}
+                              onChange={(e) =>
+                                onUpdateMemory(
+                                  w.addr,
+                                  parseFloat(e.target.value) || 0,
+                                  w.store
+                                )
+                              }
+                            />
+                          ) : (
+                            <span className="text-green-400">
+                              {readMemory(state.memory, w.addr, w.load)}
+                            </span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
       </div>
 
       <div className="space-y-4 col-span-1 xl:col-span-1">
-        <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
-          <h3 className="text-lg font-bold text-orange-400 mb-2">Data Cache</h3>
-          <div className="overflow-x-auto h-48">
-            <table className="w-full text-sm text-left text-gray-300">
-              <thead className="text-xs text-gray-400 uppercase bg-gray-700">
+        {state.caches.map(renderCacheTable)}
+        {state.caches.length === 0 && (
+          <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700 text-sm text-gray-500 italic">
+            {useScoreboard
+              ? "The scoreboard has no cache model: loads and stores take their configured latency."
+              : "Caches disabled: every access goes to main memory."}
+          </div>
+        )}
+        {state.caches.length > 0 && (
+          <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
+            <h3 className="text-sm font-bold text-orange-400 mb-2">
+              Memory Hierarchy
+            </h3>
+            <table className="w-full text-xs text-left text-gray-300">
+              <thead className="text-gray-400 uppercase bg-gray-700">
                 <tr>
-                  <th className="px-2 py-1">Tag (Block)</th>
-                  <th className="px-2 py-1">Valid</th>
-                  <th className="px-2 py-1">Last Access</th>
+                  <th className="px-2 py-1">Level</th>
+                  <th className="px-2 py-1">Hits</th>
+                  <th className="px-2 py-1">Misses</th>
+                  <th className="px-2 py-1">Hit Rate</th>
+                  <th className="px-2 py-1">AMAT</th>
                 </tr>
               </thead>
               <tbody>
-                {state.cache.map((block, idx) => (
+                {getHierarchyStats(state.caches).map((level) => (
                   <tr
-                    key={idx}
-                    className="border-b border-gray-700 font-mono text-xs"
+                    key={level.name}
+                    className="border-b border-gray-700 font-mono"
                   >
-                    <td className="px-2 py-1">{block.tag}</td>
-                    <td className="px-2 py-1">{block.valid ? "1" : "0"}</td>
-                    <td className="px-2 py-1">{block.lastAccess}</td>
-                  </tr>
-                ))}
-                {state.cache.length === 0 && (
-                  <tr>
-                    <td colSpan={3} className="px-2 py-1 text-gray-500 italic">
-                      Empty
+                    <td className="px-2 py-1 font-bold">{level.name}</td>
+                    <td className="px-2 py-1">{level.hits}</td>
+                    <td className="px-2 py-1">{level.misses}</td>
+                    <td className="px-2 py-1">
+                      {(level.hitRate * 100).toFixed(1)}%
+                    </td>
+                    <td className="px-2 py-1 text-orange-300">
+                      {level.amat.toFixed(2)}
                     </td>
                   </tr>
-                )}
+                ))}
               </tbody>
             </table>
           </div>
-        </div>
+        )}
+        {state.caches.length > 0 && (
+          <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-sm font-bold text-orange-400">MSHRs</h3>
+              <span className="text-xs text-gray-400 font-mono">
+                Merged: {state.mshrMerges} | Stalls: {state.mshrStalls}
+              </span>
+            </div>
+            {state.mshrs.length === 0 ? (
+              <div className="text-xs text-gray-500 italic">
+                No misses in flight.
+              </div>
+            ) : (
+              <table className="w-full text-xs text-left text-gray-300">
+                <thead className="text-gray-400 uppercase bg-gray-700">
+                  <tr>
+                    <th className="px-2 py-1">MSHR</th>
+                    <th className="px-2 py-1">Block</th>
+                    <th className="px-2 py-1">Ready</th>
+                    <th className="px-2 py-1">Instructions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {state.mshrs.map((m) => (
+                    <tr
+                      key={m.id}
+                      className="border-b border-gray-700 font-mono"
+                    >
+                      <td className="px-2 py-1 font-bold">{m.id}</td>
+                      <td className="px-2 py-1">{m.blockAddress}</td>
+                      <td className="px-2 py-1 text-orange-300">
+                        {m.readyCycle}
+                      </td>
+                      <td className="px-2 py-1">
+                        {m.instIds.map((id) => `#${id}`).join(", ")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
       </div>
 
+      {/* Branch Prediction */}
+      {branchStats.length > 0 && (
+        <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700 col-span-1 xl:col-span-2">
+          <h3 className="text-lg font-bold text-teal-400 mb-2">
+            Branch Prediction
+          </h3>
+          <table className="w-full text-xs text-left text-gray-300">
+            <thead className="text-gray-400 uppercase bg-gray-700">
+              <tr>
+                <th className="px-2 py-1">PC</th>
+                <th className="px-2 py-1">Branch</th>
+                <th className="px-2 py-1">Predictions</th>
+                <th className="px-2 py-1">Correct</th>
+                <th className="px-2 py-1">Taken</th>
+                <th className="px-2 py-1">Accuracy</th>
+              </tr>
+            </thead>
+            <tbody>
+              {branchStats.map((b: BranchStats) => (
+                <tr
+                  key={b.pcAddress}
+                  className="border-b border-gray-700 font-mono"
+                >
+                  <td className="px-2 py-1">{b.pcAddress}</td>
+                  <td className="px-2 py-1 whitespace-nowrap">{b.raw}</td>
+                  <td className="px-2 py-1">{b.predictions}</td>
+                  <td className="px-2 py-1">{b.correct}</td>
+                  <td className="px-2 py-1">{b.taken}</td>
+                  <td className="px-2 py-1 text-teal-300">
+                    {((b.correct / b.predictions) * 100).toFixed(1)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Log */}
       <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700 col-span-1 xl:col-span-2">
         <h3 className="text-sm font-bold text-gray-400 mb-2">Event Log</h3>
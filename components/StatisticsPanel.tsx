@@ -0,0 +1,166 @@
+import React, { useMemo } from "react";
+import { SimulationState, StallKind } from "../types";
+import { getOccupancySeries, getRunSummary } from "../services/stats";
+
+interface Props {
+  state: SimulationState;
+  history?: SimulationState[]; // Snapshots up to state, for the chart
+}
+
+const STALL_BARS: Record<StallKind, { label: string; className: string }> = {
+  STRUCTURAL: { label: "Structural", className: "bg-orange-400" },
+  RAW: { label: "RAW", className: "bg-yellow-400" },
+  BASE_REGISTER: { label: "Base register", className: "bg-yellow-600" },
+  MEMORY_ORDER: { label: "Memory order", className: "bg-pink-400" },
+  BRANCH: { label: "Branch", className: "bg-blue-400" },
+  CDB: { label: "CDB arbitration", className: "bg-purple-400" },
+  CACHE: { label: "Cache / MSHR", className: "bg-red-400" },
+  WAR: { label: "WAR", className: "bg-amber-400" },
+  WAW: { label: "WAW", className: "bg-amber-600" },
+};
+
+// SVG stroke colors for the occupancy chart
+const RS_COLORS: { [type: string]: string } = {
+  ADD: "#60a5fa",
+  MULT: "#c084fc",
+  LOAD: "#34d399",
+  STORE: "#fbbf24",
+  INTEGER: "#f87171",
+};
+
+const percent = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+export const StatisticsPanel: React.FC<Props> = ({ state, history }) => {
+  const summary = getRunSummary(state);
+  const series = useMemo(
+    () => (history ? getOccupancySeries(history) : {}),
+    [history]
+  );
+  const maxStall = Math.max(1, ...Object.values(summary.stallCycles));
+  const maxBusy = Math.max(
+    1,
+    ...Object.values(series).map((values) => Math.max(...values))
+  );
+  const l1 = summary.caches[0];
+
+  const cards: [string, string][] = [
+    ["Cycles", `${summary.cycles}`],
+    ["Committed", `${summary.instructions}`],
+    ["IPC", summary.ipc.toFixed(3)],
+    ["CPI", summary.instructions > 0 ? summary.cpi.toFixed(3) : "-"],
+    ["CDB busy", percent(summary.cdbUtilization)],
+    ["L1 hit rate", l1 ? percent(l1.hitRate) : "no cache"],
+    [
+      "Branches taken",
+      `${summary.branches.taken} / ${summary.branches.executed}`,
+    ],
+  ];
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700 col-span-1 xl:col-span-2">
+      <h3 className="text-lg font-bold text-blue-400 mb-2">Statistics</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-2 mb-4">
+        {cards.map(([label, value]) => (
+          <div key={label} className="bg-gray-900 rounded p-2">
+            <div className="text-xs uppercase text-gray-500">{label}</div>
+            <div className="text-lg font-mono text-gray-200">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+        {/* Stall breakdown */}
+        <div>
+          <h4 className="text-xs uppercase text-gray-500 font-bold mb-2">
+            Stall cycles by reason
+          </h4>
+          {(Object.keys(STALL_BARS) as StallKind[]).map((kind) => (
+            <div key={kind} className="flex items-center text-xs mb-1">
+              <span className="w-28 text-gray-400">
+                {STALL_BARS[kind].label}
+              </span>
+              <div className="flex-1 bg-gray-900 rounded h-3 mr-2">
+                <div
+                  className={`h-3 rounded ${STALL_BARS[kind].className}`}
+                  style={{
+                    width: `${(summary.stallCycles[kind] / maxStall) * 100}%`,
+                  }}
+                />
+              </div>
+              <span className="w-10 text-right font-mono text-gray-300">
+                {summary.stallCycles[kind]}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {/* Average RS utilization */}
+        <div>
+          <h4 className="text-xs uppercase text-gray-500 font-bold mb-2">
+            RS utilization (average)
+          </h4>
+          {Object.entries(summary.rsUtilization).map(([type, u]) => (
+            <div key={type} className="flex items-center text-xs mb-1">
+              <span className="w-16 text-gray-400">{type}</span>
+              <div className="flex-1 bg-gray-900 rounded h-3 mr-2">
+                <div
+                  className="h-3 rounded"
+                  style={{
+                    width: `${u * 100}%`,
+                    backgroundColor: RS_COLORS[type],
+                  }}
+                />
+              </div>
+              <span className="w-12 text-right font-mono text-gray-300">
+                {percent(u)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {/* Busy stations over time */}
+        <div>
+          <h4 className="text-xs uppercase text-gray-500 font-bold mb-2">
+            RS occupancy over time
+          </h4>
+          {state.cycle === 0 || !history ? (
+            <div className="text-xs text-gray-500 italic">No cycles yet.</div>
+          ) : (
+            <>
+              <svg
+                viewBox={`0 0 ${state.cycle} ${maxBusy}`}
+                preserveAspectRatio="none"
+                className="w-full h-24 bg-gray-900 rounded"
+              >
+                {Object.entries(series).map(([type, values]) => (
+                  <polyline
+                    key={type}
+                    fill="none"
+                    stroke={RS_COLORS[type]}
+                    strokeWidth={1.5}
+                    vectorEffect="non-scaling-stroke"
+                    points={values
+                      .map((v, cycle) => `${cycle},${maxBusy - v}`)
+                      .join(" ")}
+                  />
+                ))}
+              </svg>
+              <div className="flex flex-wrap gap-3 text-xs text-gray-400 mt-1">
+                {Object.keys(series).map((type) => (
+                  <span key={type} className="flex items-center">
+                    <span
+                      className="w-3 h-1 mr-1"
+                      style={{ backgroundColor: RS_COLORS[type] }}
+                    />
+                    {type}
+                  </span>
+                ))}
+                <span className="ml-auto">max {maxBusy} busy</span>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,276 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Download, Play, X } from "lucide-react";
+import { SystemConfig } from "../types";
+import {
+  SweepPoint,
+  SweepProgram,
+  getSweepParameters,
+  parseSweepValues,
+  runSweepPoint,
+  sweepGrid,
+  sweepToCSV,
+} from "../services/sweep";
+
+interface Props {
+  program: SweepProgram;
+  config: SystemConfig; // Base config, the swept parameters replace its values
+  onClose: () => void;
+}
+
+const MAX_POINTS = 400;
+
+type Metric = "cycles" | "ipc";
+
+export const SweepPanel: React.FC<Props> = ({ program, config, onClose }) => {
+  const params = useMemo(() => getSweepParameters(config), [config]);
+  const [xId, setXId] = useState("rsSizes.MULT");
+  const [xText, setXText] = useState("1-4");
+  const [yId, setYId] = useState(""); // "" = one-parameter sweep
+  const [yText, setYText] = useState("1-4");
+  const [metric, setMetric] = useState<Metric>("cycles");
+  const [points, setPoints] = useState<SweepPoint[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number }>();
+  const [swept, setSwept] = useState<{ xId: string; yId: string }>();
+  const cancelled = useRef(false);
+
+  useEffect(() => () => void (cancelled.current = true), []);
+
+  const xParam = params.find((p) => p.id === xId) || params[0];
+  const yParam = params.find((p) => p.id === yId);
+  const xRange = parseSweepValues(xText);
+  const yRange = yParam ? parseSweepValues(yText) : null;
+  const total = xRange.values.length * (yRange ? yRange.values.length : 1);
+  let error = xRange.error || yRange?.error || null;
+  if (!error && yParam?.id === xParam.id)
+    error = "Pick two different parameters";
+  else if (!error && total > MAX_POINTS)
+    error = `${total} runs, the limit is ${MAX_POINTS}`;
+  const running = progress !== undefined && progress.done < progress.total;
+
+  // Runs one point per tick so the page stays responsive
+  const runSweep = () => {
+    const grid = sweepGrid(xRange.values, yRange ? yRange.values : null);
+    const results: SweepPoint[] = [];
+    cancelled.current = false;
+    setPoints([]);
+    setSwept({ xId: xParam.id, yId: yParam?.id ?? "" });
+    setProgress({ done: 0, total: grid.length });
+    const step = (i: number) => {
+      if (cancelled.current || i >= grid.length) return;
+      const { x, y } = grid[i];
+      results.push(runSweepPoint(program, config, xParam, x, yParam, y));
+      setPoints([...results]);
+      setProgress({ done: i + 1, total: grid.length });
+      setTimeout(() => step(i + 1), 0);
+    };
+    setTimeout(() => step(0), 0);
+  };
+
+  const exportCSV = () => {
+    const sweptX = params.find((p) => p.id === swept?.xId) || xParam;
+    const sweptY = params.find((p) => p.id === swept?.yId);
+    const blob = new Blob([sweepToCSV(points, sweptX, sweptY)], {
+      type: "text/csv",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "sweep.csv";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Heatmap shading: green is best, red is worst, for the chosen metric
+  const values = points.filter((p) => p.finished).map((p) => p[metric]);
+  const best = metric === "cycles" ? Math.min(...values) : Math.max(...values);
+  const worst = metric === "cycles" ? Math.max(...values) : Math.min(...values);
+  const shade = (p: SweepPoint) => {
+    if (!p.finished) return "#374151";
+    const t = best === worst ? 1 : (p[metric] - worst) / (best - worst);
+    return `hsl(${Math.round(t * 120)}, 55%, 30%)`;
+  };
+  const format = (p: SweepPoint) =>
+    !p.finished ? "-" : metric === "cycles" ? `${p.cycles}` : p.ipc.toFixed(3);
+
+  const xs = Array.from(new Set(points.map((p) => p.x)));
+  const ys = Array.from(new Set(points.map((p) => p.y)));
+  const sweptXLabel = params.find((p) => p.id === swept?.xId)?.label;
+  const sweptYLabel = params.find((p) => p.id === swept?.yId)?.label;
+
+  const paramSelect = (
+    value: string,
+    onChange: (id: string) => void,
+    allowNone: boolean
+  ) => (
+    <select
+      className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {allowNone && <option value="">(none)</option>}
+      {params.map((p) => (
+        <option key={p.id} value={p.id}>
+          {p.label} (now {p.get(config)})
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="h-full overflow-y-auto pb-20 space-y-4">
+      <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-bold text-blue-400">
+            Design-Space Sweep
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-300"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="grid grid-cols-[auto_1fr_1fr] gap-2 items-center text-sm max-w-3xl">
+          <span className="text-gray-400">X axis</span>
+          {paramSelect(xId, setXId, false)}
+          <input
+            className="bg-gray-900 border border-gray-600 rounded px-2 py-1 font-mono"
+            value={xText}
+            onChange={(e) => setXText(e.target.value)}
+            placeholder="e.g. 1-4, 2,4,8 or 16-256*2"
+          />
+          <span className="text-gray-400">Y axis</span>
+          {paramSelect(yId, setYId, true)}
+          <input
+            className="bg-gray-900 border border-gray-600 rounded px-2 py-1 font-mono disabled:opacity-40"
+            value={yText}
+            disabled={!yParam}
+            onChange={(e) => setYText(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center space-x-3 mt-3">
+          <button
+            onClick={runSweep}
+            disabled={!!error || running}
+            className="flex items-center bg-green-700 hover:bg-green-600 disabled:opacity-40 px-3 py-1 rounded text-sm font-bold"
+          >
+            <Play className="w-4 h-4 mr-1" /> Run {total} simulations
+          </button>
+          {running && (
+            <button
+              onClick={() => {
+                cancelled.current = true;
+                setProgress(undefined);
+              }}
+              className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded text-sm"
+            >
+              Cancel
+            </button>
+          )}
+          {progress && (
+            <span className="text-xs text-gray-400 font-mono">
+              {progress.done} / {progress.total}
+            </span>
+          )}
+          {error && <span className="text-xs text-red-400">{error}</span>}
+        </div>
+        <div className="text-xs text-gray-500 mt-2">
+          All other settings come from the current configuration.
+        </div>
+      </div>
+
+      {points.length > 0 && (
+        <div className="bg-gray-800 p-4 rounded-lg shadow border border-gray-700">
+          <div className="flex justify-between items-center mb-3">
+            <div className="flex space-x-1 text-xs">
+              {(["cycles", "ipc"] as Metric[]).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setMetric(m)}
+                  className={`px-2 py-1 rounded ${
+                    metric === m
+                      ? "bg-blue-700 text-white"
+                      : "bg-gray-700 text-gray-400"
+                  }`}
+                >
+                  {m === "cycles" ? "Cycles" : "IPC"}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={exportCSV}
+              disabled={running}
+              className="flex items-center bg-gray-700 hover:bg-gray-600 disabled:opacity-40 px-2 py-1 rounded text-xs text-gray-300"
+            >
+              <Download className="w-3 h-3 mr-1" /> Export CSV
+            </button>
+          </div>
+
+          <div className="overflow-auto">
+            <table className="text-sm text-gray-200 font-mono">
+              <thead>
+                <tr>
+                  <th className="px-2 py-1 text-xs text-gray-400 text-left">
+                    {sweptYLabel
+                      ? `${sweptYLabel} \\ ${sweptXLabel}`
+                      : sweptXLabel}
+                  </th>
+                  {sweptYLabel ? (
+                    xs.map((x) => (
+                      <th key={x} className="px-2 py-1 text-gray-400">
+                        {x}
+                      </th>
+                    ))
+                  ) : (
+                    <th className="px-2 py-1 text-gray-400">
+                      {metric === "cycles" ? "Cycles" : "IPC"}
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {sweptYLabel
+                  ? ys.map((y) => (
+                      <tr key={String(y)}>
+                        <td className="px-2 py-1 text-gray-400">{y}</td>
+                        {xs.map((x) => {
+                          const p = points.find((q) => q.x === x && q.y === y);
+                          return (
+                            <td
+                              key={x}
+                              className="px-3 py-1 text-center border border-gray-800"
+                              style={{ backgroundColor: p && shade(p) }}
+                              title={p?.error ?? undefined}
+                            >
+                              {p ? format(p) : ""}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))
+                  : points.map((p) => (
+                      <tr key={p.x}>
+                        <td className="px-2 py-1 text-gray-400">{p.x}</td>
+                        <td
+                          className="px-3 py-1 text-center border border-gray-800"
+                          style={{ backgroundColor: shade(p) }}
+                          title={p.error ?? undefined}
+                        >
+                          {format(p)}
+                        </td>
+                      </tr>
+                    ))}
+              </tbody>
+            </table>
+          </div>
+          {points.some((p) => !p.finished) && (
+            <div className="text-xs text-yellow-300 mt-2">
+              Grey cells did not finish; hover for the reason.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,17 @@
-import { OpType, SystemConfig } from "./types";
+import {
+  BranchPredictorType,
+  CDBArbitration,
+  ExceptionHandling,
+  LoadStorePolicy,
+  OpType,
+  ReplacementPolicy,
+  SimulationEngine,
+  SystemConfig,
+  WritePolicy,
+} from "./types";
 
 export const DEFAULT_CONFIG: SystemConfig = {
+  engine: SimulationEngine.TOMASULO,
   rsSizes: {
     ADD: 3,
     MULT: 2,
@@ -18,16 +29,124 @@ export const DEFAULT_CONFIG: SystemConfig = {
     [OpType.INTEGER]: 1,
     [OpType.BRANCH]: 1,
   },
+  // One unit per station by default, so units never hold up a station
+  functionalUnits: {
+    ADD: { count: 3, pipelined: true },
+    MULT: { count: 2, pipelined: true },
+    INTEGER: { count: 3, pipelined: true },
+    MEMORY: { count: 6, pipelined: true },
+  },
   cache: {
     enabled: true,
-    blockSize: 4, // 4 bytes per block
-    cacheSize: 16, // 16 bytes total
-    hitLatency: 1, // included in base latency usually, but can be added
-    missPenalty: 10,
+    levels: [
+      {
+        name: "L1",
+        blockSize: 4, // 4 bytes per block
+        cacheSize: 16, // 16 bytes total
+        associativity: 4, // fully associative
+        hitLatency: 1, // added to the LOAD/STORE latency
+        replacement: ReplacementPolicy.LRU,
+        seed: 1,
+        writePolicy: WritePolicy.WRITE_BACK,
+        writeAllocate: true,
+      },
+    ],
+    memoryLatency: 10,
+    nonBlocking: true,
+    mshrs: 4,
+  },
+  rob: {
+    enabled: false,
+    entries: 8,
+  },
+  physicalRegisters: {
+    enabled: false,
+    count: 32,
+  },
+  loadStorePolicy: LoadStorePolicy.CONSERVATIVE,
+  branchPredictor: {
+    type: BranchPredictorType.STALL,
+    tableSize: 16,
+  },
+  issueWidth: 1,
+  cdb: {
+    count: 1,
+    arbitration: CDBArbitration.FIXED_PRIORITY,
   },
   memorySize: 256,
+  exceptionHandling: ExceptionHandling.HALT,
+  maxCycles: 1000,
 };
 
+export const CONFIG_PRESETS: {
+  name: string;
+  description: string;
+  config: SystemConfig;
+}[] = [
+  {
+    name: "Default",
+    description: "The simulator's starting configuration",
+    config: DEFAULT_CONFIG,
+  },
+  {
+    name: "Hennessy & Patterson",
+    description:
+      "Textbook Tomasulo example: 3 add and 2 multiply stations, FP add 2, " +
+      "multiply 10, divide 40 cycles, perfect memory, no speculation",
+    config: {
+      ...DEFAULT_CONFIG,
+      rsSizes: { ADD: 3, MULT: 2, LOAD: 3, STORE: 3, INTEGER: 3 },
+      latencies: {
+        ...DEFAULT_CONFIG.latencies,
+        [OpType.LOAD]: 2,
+        [OpType.STORE]: 2,
+        [OpType.ADD]: 2,
+        [OpType.SUB]: 2,
+        [OpType.MULT]: 10,
+        [OpType.DIV]: 40,
+      },
+      // Misses never happen in the textbook example, so memory costs nothing
+      cache: { ...DEFAULT_CONFIG.cache, enabled: false, memoryLatency: 1 },
+      rob: { enabled: false, entries: 8 },
+      loadStorePolicy: LoadStorePolicy.CONSERVATIVE,
+      branchPredictor: { type: BranchPredictorType.STALL, tableSize: 16 },
+    },
+  },
+  {
+    name: "IBM 360/91-like",
+    description:
+      "3 add and 2 multiply/divide stations, 6 load and 3 store buffers, " +
+      "FP add 2, multiply 3, divide 12 cycles, no cache, slow core memory",
+    config: {
+      ...DEFAULT_CONFIG,
+      rsSizes: { ADD: 3, MULT: 2, LOAD: 6, STORE: 3, INTEGER: 3 },
+      latencies: {
+        ...DEFAULT_CONFIG.latencies,
+        [OpType.LOAD]: 1,
+        [OpType.STORE]: 1,
+        [OpType.ADD]: 2,
+        [OpType.SUB]: 2,
+        [OpType.MULT]: 3,
+        [OpType.DIV]: 12,
+      },
+      cache: { ...DEFAULT_CONFIG.cache, enabled: false, memoryLatency: 10 },
+      rob: { enabled: false, entries: 8 },
+      loadStorePolicy: LoadStorePolicy.CONSERVATIVE,
+      branchPredictor: { type: BranchPredictorType.STALL, tableSize: 16 },
+    },
+  },
+  {
+    name: "Speculative",
+    description: "ROB with 16 entries, 2-bit prediction and store forwarding",
+    config: {
+      ...DEFAULT_CONFIG,
+      rob: { enabled: true, entries: 16 },
+      loadStorePolicy: LoadStorePolicy.FORWARDING,
+      branchPredictor: { type: BranchPredictorType.TWO_BIT, tableSize: 16 },
+    },
+  },
+];
+
 export const INITIAL_REGISTERS = [
   "F0",
   "F2",
@@ -46,18 +165,37 @@ export const INITIAL_REGISTERS = [
   "R4",
 ];
 
-export const SAMPLE_CODE_SEQUENTIAL = `L.D F6, 0(R2)
-L.D F2, 8(R2)
+export const SAMPLE_CODE_SEQUENTIAL = `.data
+V: .double 2.5, 1.5
+.text
+L.D F6, V(R2)
+L.D F2, V+8(R2)
 MUL.D F0, F2, F4
 SUB.D F8, F2, F6
 DIV.D F10, F0, F6
 ADD.D F6, F8, F2
-S.D F6, 8(R2)`;
+S.D F6, V+8(R2)`;
 
-export const SAMPLE_CODE_LOOP = `DADDI R1, R1, 24
+export const SAMPLE_CODE_LOOP = `.data
+ARR: .double 1.0, 2.0, 3.0, 4.0
+.text
+DADDI R1, R1, 24
 DADDI R2, R2, 0
-LOOP: L.D F0, 0(R1)
+LOOP: L.D F0, ARR(R1)
 MUL.D F4, F0, F2
-S.D F4, 0(R1)
+S.D F4, ARR(R1)
 SUBI R1, R1, 8
 BNE R1, R2, LOOP`;
+
+// DIV.D divides by zero while the older MUL.D is still running: without a
+// ROB the run halts before F0 is written (imprecise), with one MUL.D still
+// commits first (precise)
+export const SAMPLE_CODE_EXCEPTION = `.data
+V: .double 6.0, 0.0
+.text
+L.D F2, V(R1)
+L.D F4, V+8(R1)
+MUL.D F0, F2, F2
+DIV.D F6, F2, F4
+ADD.D F8, F2, F2
+S.D F8, V(R1)`;
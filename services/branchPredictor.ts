@@ -0,0 +1,113 @@
+// services/branchPredictor.ts
+import { BranchPredictorType, PredictorState, SystemConfig } from "../types";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const tableIndex = (pcAddress: number, config: SystemConfig) =>
+  Math.floor(pcAddress / 4) % Math.max(1, config.branchPredictor.tableSize);
+
+// ============================================================================
+// PREDICTOR
+// ============================================================================
+
+export const initializePredictor = (config: SystemConfig): PredictorState => {
+  const size = Math.max(1, config.branchPredictor.tableSize);
+  return {
+    // 2-bit counters start weakly not taken, 1-bit entries start not taken
+    counters: new Array(size).fill(
+      config.branchPredictor.type === BranchPredictorType.TWO_BIT ? 1 : 0
+    ),
+    btb: new Array(size).fill(null),
+    stats: {},
+  };
+};
+
+// Returns the predicted direction and, when taken, the predicted target.
+// `decodedTarget` is the label address known once the branch is decoded.
+export const predictBranch = (
+  predictor: PredictorState,
+  config: SystemConfig,
+  pcAddress: number,
+  decodedTarget: number | null
+): { taken: boolean; target: number | null } => {
+  const idx = tableIndex(pcAddress, config);
+  let taken = false;
+
+  switch (config.branchPredictor.type) {
+    case BranchPredictorType.TAKEN:
+      taken = true;
+      break;
+    case BranchPredictorType.ONE_BIT:
+      taken = predictor.counters[idx] === 1;
+      break;
+    case BranchPredictorType.TWO_BIT:
+      taken = predictor.counters[idx] >= 2;
+      break;
+    case BranchPredictorType.BTB: {
+      // A BTB hit supplies both the direction and the target
+      const entry = predictor.btb[idx];
+      if (entry && entry.pcAddress === pcAddress)
+        return { taken: true, target: entry.target };
+      return { taken: false, target: null };
+    }
+    default:
+      taken = false;
+  }
+
+  if (taken && decodedTarget === null) return { taken: false, target: null };
+  return { taken, target: taken ? decodedTarget : null };
+};
+
+export const updatePredictor = (
+  predictor: PredictorState,
+  config: SystemConfig,
+  pcAddress: number,
+  raw: string,
+  taken: boolean,
+  target: number | null,
+  correct: boolean
+): PredictorState => {
+  const idx = tableIndex(pcAddress, config);
+  const counters = [...predictor.counters];
+  const btb = [...predictor.btb];
+
+  switch (config.branchPredictor.type) {
+    case BranchPredictorType.ONE_BIT:
+      counters[idx] = taken ? 1 : 0;
+      break;
+    case BranchPredictorType.TWO_BIT:
+      counters[idx] = taken
+        ? Math.min(3, counters[idx] + 1)
+        : Math.max(0, counters[idx] - 1);
+      break;
+    case BranchPredictorType.BTB:
+      // Taken branches are entered, not-taken branches are evicted
+      if (taken && target !== null) btb[idx] = { pcAddress, target };
+      else if (btb[idx] && btb[idx]!.pcAddress === pcAddress) btb[idx] = null;
+      break;
+  }
+
+  const prev = predictor.stats[pcAddress] || {
+    pcAddress,
+    raw,
+    predictions: 0,
+    correct: 0,
+    taken: 0,
+  };
+
+  return {
+    counters,
+    btb,
+    stats: {
+      ...predictor.stats,
+      [pcAddress]: {
+        ...prev,
+        predictions: prev.predictions + 1,
+        correct: prev.correct + (correct ? 1 : 0),
+        taken: prev.taken + (taken ? 1 : 0),
+      },
+    },
+  };
+};
@@ -0,0 +1,59 @@
+// services/breakpoints.ts
+import { Breakpoint, SimulationState } from "../types";
+
+export const describeBreakpoint = (bp: Breakpoint): string => {
+  switch (bp.kind) {
+    case "ISSUE":
+      return `Line ${bp.line} issues`;
+    case "COMPLETE":
+      return `Line ${bp.line} completes`;
+    case "WRITEBACK":
+      return `Line ${bp.line} writes back`;
+    case "REGISTER":
+      return `${bp.register} changes`;
+    case "MEMORY":
+      return `Address ${bp.address} is written`;
+  }
+};
+
+// Compares two consecutive states and returns a message for the first
+// breakpoint that fired during `next`'s cycle, or null
+export const checkBreakpoints = (
+  prev: SimulationState,
+  next: SimulationState,
+  breakpoints: Breakpoint[]
+): string | null => {
+  for (const bp of breakpoints) {
+    let hit = false;
+    switch (bp.kind) {
+      case "ISSUE":
+      case "COMPLETE":
+      case "WRITEBACK": {
+        const field =
+          bp.kind === "ISSUE"
+            ? "issueCycle"
+            : bp.kind === "COMPLETE"
+            ? "execEndCycle"
+            : "writeCycle";
+        hit = next.instructions.some(
+          (i) => i.line === bp.line && i[field] === next.cycle
+        );
+        break;
+      }
+      case "REGISTER": {
+        const before = prev.registers[bp.register];
+        const after = next.registers[bp.register];
+        hit = !!before && !!after && !Object.is(before.value, after.value);
+        break;
+      }
+      case "MEMORY":
+        hit = next.memoryWrites.some(
+          (w) => bp.address >= w.address && bp.address < w.address + w.bytes
+        );
+        break;
+    }
+    if (hit)
+      return `Breakpoint at cycle ${next.cycle}: ${describeBreakpoint(bp)}`;
+  }
+  return null;
+};
@@ -0,0 +1,401 @@
+// services/cache.ts
+import {
+  CacheBlock,
+  CacheLevelConfig,
+  CacheState,
+  MSHREntry,
+  ReplacementPolicy,
+  SystemConfig,
+  WritePolicy,
+} from "../types";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const getCacheGeometry = (
+  cfg: CacheLevelConfig
+): { numSets: number; ways: number } => {
+  const blocks = Math.max(1, Math.floor(cfg.cacheSize / cfg.blockSize));
+  const ways = Math.min(blocks, Math.max(1, cfg.associativity));
+  return { numSets: Math.max(1, Math.floor(blocks / ways)), ways };
+};
+
+const emptyBlock = (): CacheBlock => ({
+  tag: 0,
+  valid: false,
+  dirty: false,
+  lastAccess: 0,
+  insertedAt: 0,
+});
+
+// PLRU keeps a binary tree over the ways, rounded up to a power of two
+const treeLeaves = (ways: number) => {
+  let n = 1;
+  while (n < ways) n *= 2;
+  return n;
+};
+
+// Points every node on the path away from the accessed way
+const plruTouch = (bits: number[], way: number, ways: number) => {
+  let node = 0;
+  let lo = 0;
+  let hi = treeLeaves(ways);
+  while (hi - lo > 1) {
+    const mid = (lo + hi) / 2;
+    if (way < mid) {
+      bits[node] = 1;
+      node = 2 * node + 1;
+      hi = mid;
+    } else {
+      bits[node] = 0;
+      node = 2 * node + 2;
+      lo = mid;
+    }
+  }
+};
+
+const plruVictim = (bits: number[], ways: number) => {
+  let node = 0;
+  let lo = 0;
+  let hi = treeLeaves(ways);
+  while (hi - lo > 1) {
+    const mid = (lo + hi) / 2;
+    if (bits[node] === 1) {
+      node = 2 * node + 2;
+      lo = mid;
+    } else {
+      node = 2 * node + 1;
+      hi = mid;
+    }
+  }
+  return Math.min(lo, ways - 1);
+};
+
+// mulberry32, returns a value in [0, 1) and the next generator state
+const nextRandom = (state: number): { value: number; state: number } => {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: next };
+};
+
+// ============================================================================
+// SINGLE LEVEL
+// ============================================================================
+
+export const createCache = (cfg: CacheLevelConfig): CacheState => {
+  const { numSets, ways } = getCacheGeometry(cfg);
+  return {
+    name: cfg.name,
+    sets: Array.from({ length: numSets }, () =>
+      Array.from({ length: ways }, emptyBlock)
+    ),
+    plru: Array.from({ length: numSets }, () =>
+      new Array(treeLeaves(ways) - 1).fill(0)
+    ),
+    rng: cfg.seed,
+    hits: 0,
+    misses: 0,
+    totalCycles: 0,
+  };
+};
+
+// Looks up (and on a miss, fills) one level. Timing is left to the caller.
+const lookupLevel = (
+  addr: number,
+  cfg: CacheLevelConfig,
+  cache: CacheState,
+  cycle: number,
+  isWrite: boolean
+): {
+  hit: boolean;
+  filled: boolean;
+  victimAddr: number | null; // Address of a dirty block that was evicted
+  newCache: CacheState;
+} => {
+  const { numSets, ways } = getCacheGeometry(cfg);
+  const blockNumber = Math.floor(addr / cfg.blockSize);
+  const setIndex = blockNumber % numSets;
+  const tag = Math.floor(blockNumber / numSets);
+  const writeBack = cfg.writePolicy === WritePolicy.WRITE_BACK;
+
+  const set = cache.sets[setIndex].map((b) => ({ ...b }));
+  const bits = [...cache.plru[setIndex]];
+  let rng = cache.rng;
+  let filled = false;
+  let victimAddr: number | null = null;
+
+  const way = set.findIndex((b) => b.valid && b.tag === tag);
+  const hit = way !== -1;
+
+  if (hit) {
+    set[way].lastAccess = cycle;
+    if (isWrite && writeBack) set[way].dirty = true;
+    plruTouch(bits, way, ways);
+  } else if (!isWrite || cfg.writeAllocate) {
+    // A no-write-allocate store writes around the cache instead
+    let victim = set.findIndex((b) => !b.valid);
+    if (victim === -1) {
+      switch (cfg.replacement) {
+        case ReplacementPolicy.FIFO:
+          victim = set.reduce(
+            (best, b, i) => (b.insertedAt < set[best].insertedAt ? i : best),
+            0
+          );
+          break;
+        case ReplacementPolicy.RANDOM: {
+          const r = nextRandom(rng);
+          rng = r.state;
+          victim = Math.floor(r.value * ways);
+          break;
+        }
+        case ReplacementPolicy.PLRU:
+          victim = plruVictim(bits, ways);
+          break;
+        default:
+          victim = set.reduce(
+            (best, b, i) => (b.lastAccess < set[best].lastAccess ? i : best),
+            0
+          );
+      }
+    }
+
+    if (set[victim].valid && set[victim].dirty)
+      victimAddr = (set[victim].tag * numSets + setIndex) * cfg.blockSize;
+
+    set[victim] = {
+      tag,
+      valid: true,
+      dirty: isWrite && writeBack,
+      lastAccess: cycle,
+      insertedAt: cycle,
+    };
+    filled = true;
+    plruTouch(bits, victim, ways);
+  }
+
+  const sets = [...cache.sets];
+  sets[setIndex] = set;
+  const plru = [...cache.plru];
+  plru[setIndex] = bits;
+
+  return {
+    hit,
+    filled,
+    victimAddr,
+    newCache: {
+      ...cache,
+      sets,
+      plru,
+      rng,
+      hits: cache.hits + (hit ? 1 : 0),
+      misses: cache.misses + (hit ? 0 : 1),
+    },
+  };
+};
+
+// ============================================================================
+// HIERARCHY
+// ============================================================================
+
+export const createHierarchy = (config: SystemConfig): CacheState[] =>
+  config.cache.enabled ? config.cache.levels.map(createCache) : [];
+
+// Accesses `bytes` bytes at level `level` (main memory past the last one)
+// and returns the cycles it took, counting the lower levels a miss or write
+// reaches. An access that crosses a block boundary looks up every block it
+// covers; they are fetched side by side, so the slowest one sets the time.
+const accessLevel = (
+  addr: number,
+  bytes: number,
+  config: SystemConfig,
+  caches: CacheState[],
+  level: number,
+  cycle: number,
+  isWrite: boolean
+): { latency: number; hitLevel: string; writebacks: number } => {
+  if (level >= caches.length)
+    return {
+      latency: config.cache.memoryLatency,
+      hitLevel: "Memory",
+      writebacks: 0,
+    };
+
+  const { blockSize } = config.cache.levels[level];
+  const first = Math.floor(addr / blockSize);
+  const last = Math.floor((addr + Math.max(1, bytes) - 1) / blockSize);
+  let result = { latency: 0, hitLevel: "", writebacks: 0 };
+  for (let block = first; block <= last; block++) {
+    // The part of the access that falls in this block
+    const start = Math.max(addr, block * blockSize);
+    const end = Math.min(addr + bytes, (block + 1) * blockSize);
+    const one = accessBlock(
+      start,
+      end - start,
+      config,
+      caches,
+      level,
+      cycle,
+      isWrite
+    );
+    result = {
+      latency: Math.max(result.latency, one.latency),
+      hitLevel: one.latency >= result.latency ? one.hitLevel : result.hitLevel,
+      writebacks: result.writebacks + one.writebacks,
+    };
+  }
+  return result;
+};
+
+// One block of an access at one level
+const accessBlock = (
+  addr: number,
+  bytes: number,
+  config: SystemConfig,
+  caches: CacheState[],
+  level: number,
+  cycle: number,
+  isWrite: boolean
+): { latency: number; hitLevel: string; writebacks: number } => {
+  const cfg = config.cache.levels[level];
+  const { hit, filled, victimAddr, newCache } = lookupLevel(
+    addr,
+    cfg,
+    caches[level],
+    cycle,
+    isWrite
+  );
+  caches[level] = newCache;
+
+  let latency = cfg.hitLatency;
+  let hitLevel = cfg.name;
+  let writebacks = 0;
+
+  if (!hit) {
+    // Fetch the block (or write around it) from the next level
+    const below = accessLevel(
+      addr,
+      bytes,
+      config,
+      caches,
+      level + 1,
+      cycle,
+      isWrite && !filled
+    );
+    latency += below.latency;
+    hitLevel = below.hitLevel;
+    writebacks += below.writebacks;
+  }
+
+  if (victimAddr !== null) {
+    const wb = accessLevel(
+      victimAddr,
+      cfg.blockSize,
+      config,
+      caches,
+      level + 1,
+      cycle,
+      true
+    );
+    latency += wb.latency;
+    writebacks += wb.writebacks + 1;
+  }
+
+  // Write-through stores also pay for the write to the next level
+  if (
+    isWrite &&
+    cfg.writePolicy === WritePolicy.WRITE_THROUGH &&
+    (hit || filled)
+  ) {
+    const wt = accessLevel(addr, bytes, config, caches, level + 1, cycle, true);
+    latency += wt.latency;
+    writebacks += wt.writebacks;
+  }
+
+  caches[level] = {
+    ...caches[level],
+    totalCycles: caches[level].totalCycles + latency,
+  };
+  return { latency, hitLevel, writebacks };
+};
+
+// Returns the extra cycles a load or store of `bytes` bytes spends in the
+// memory hierarchy on top of its LOAD/STORE latency, and the level that
+// supplied the slowest block.
+export const accessHierarchy = (
+  addr: number,
+  bytes: number,
+  config: SystemConfig,
+  caches: CacheState[],
+  cycle: number,
+  isWrite: boolean
+): {
+  latency: number;
+  hitLevel: string;
+  writebacks: number;
+  newCaches: CacheState[];
+} => {
+  const newCaches = [...caches];
+  const result = accessLevel(addr, bytes, config, newCaches, 0, cycle, isWrite);
+  return { ...result, newCaches };
+};
+
+// ============================================================================
+// MSHRs
+// ============================================================================
+
+// L1 blocks an access covers, lowest first; an MSHR tracks one of them
+export const getBlockAddresses = (
+  addr: number,
+  bytes: number,
+  config: SystemConfig
+) => {
+  const blockSize = config.cache.levels[0]?.blockSize || 1;
+  const blocks: number[] = [];
+  const last = Math.floor((addr + Math.max(1, bytes) - 1) / blockSize);
+  for (let b = Math.floor(addr / blockSize); b <= last; b++)
+    blocks.push(b * blockSize);
+  return blocks;
+};
+
+// True when the L1 holds the block, without touching replacement state
+export const probeL1 = (
+  addr: number,
+  config: SystemConfig,
+  caches: CacheState[]
+): boolean => {
+  if (caches.length === 0) return false;
+  const cfg = config.cache.levels[0];
+  const { numSets } = getCacheGeometry(cfg);
+  const blockNumber = Math.floor(addr / cfg.blockSize);
+  const tag = Math.floor(blockNumber / numSets);
+  return caches[0].sets[blockNumber % numSets].some(
+    (b) => b.valid && b.tag === tag
+  );
+};
+
+// Frees the MSHRs whose block has arrived by `cycle`
+export const retireMSHRs = (mshrs: MSHREntry[], cycle: number) =>
+  mshrs.filter((m) => m.readyCycle > cycle);
+
+// Picks the lowest free MSHR number, so ids stay stable in the UI
+export const nextMSHRId = (mshrs: MSHREntry[]) => {
+  let n = 1;
+  while (mshrs.some((m) => m.id === `MSHR${n}`)) n++;
+  return `MSHR${n}`;
+};
+
+// Hit rate and average memory access time seen at each level
+export const getHierarchyStats = (caches: CacheState[]) =>
+  caches.map((c) => {
+    const accesses = c.hits + c.misses;
+    return {
+      name: c.name,
+      hits: c.hits,
+      misses: c.misses,
+      hitRate: accesses > 0 ? c.hits / accesses : 0,
+      amat: accesses > 0 ? c.totalCycles / accesses : 0,
+    };
+  });
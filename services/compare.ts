@@ -0,0 +1,163 @@
+// services/compare.ts
+// Runs one program under two configs in lockstep and lines up the timings
+// of the same dynamic instructions.
+import {
+  InstructionLine,
+  SimulationEngine,
+  SimulationState,
+  SystemConfig,
+} from "../types";
+import { initializeState, nextCycle } from "./simulator";
+import { SweepParameter, SweepProgram } from "./sweep";
+
+// ============================================================================
+// VARIANT CONFIG
+// ============================================================================
+
+// On/off settings; numeric ones come from getSweepParameters
+export interface ConfigSwitch {
+  id: string;
+  label: string;
+  get: (config: SystemConfig) => boolean;
+  set: (config: SystemConfig, value: boolean) => SystemConfig;
+}
+
+export const CONFIG_SWITCHES: ConfigSwitch[] = [
+  {
+    id: "cache.enabled",
+    label: "Cache",
+    get: (c) => c.cache.enabled,
+    set: (c, v) => ({ ...c, cache: { ...c.cache, enabled: v } }),
+  },
+  {
+    id: "cache.nonBlocking",
+    label: "Non-blocking cache",
+    get: (c) => c.cache.nonBlocking,
+    set: (c, v) => ({ ...c, cache: { ...c.cache, nonBlocking: v } }),
+  },
+  {
+    id: "engine",
+    label: "Scoreboard",
+    get: (c) => c.engine === SimulationEngine.SCOREBOARD,
+    set: (c, v) => ({
+      ...c,
+      engine: v ? SimulationEngine.SCOREBOARD : SimulationEngine.TOMASULO,
+    }),
+  },
+  {
+    id: "rob.enabled",
+    label: "ROB",
+    get: (c) => c.rob.enabled,
+    set: (c, v) => ({ ...c, rob: { ...c.rob, enabled: v } }),
+  },
+  {
+    id: "physicalRegisters.enabled",
+    label: "Register renaming",
+    get: (c) => c.physicalRegisters.enabled,
+    set: (c, v) => ({
+      ...c,
+      physicalRegisters: { ...c.physicalRegisters, enabled: v },
+    }),
+  },
+];
+
+// What config B changes relative to config A
+export interface ConfigVariant {
+  values: { param: SweepParameter; value: number }[];
+  switches: { [id: string]: boolean };
+}
+
+export const applyVariant = (
+  config: SystemConfig,
+  variant: ConfigVariant
+): SystemConfig => {
+  let result = config;
+  variant.values.forEach(({ param, value }) => {
+    result = param.set(result, value);
+  });
+  CONFIG_SWITCHES.forEach((s) => {
+    if (s.id in variant.switches)
+      result = s.set(result, variant.switches[s.id]);
+  });
+  return result;
+};
+
+// ============================================================================
+// LOCKSTEP RUNS
+// ============================================================================
+
+export const startRun = (program: SweepProgram, config: SystemConfig) =>
+  initializeState(
+    program.instructions,
+    config,
+    program.registers,
+    program.memory
+  );
+
+// Advances a run by one cycle; finished runs stay where they are
+export const stepRun = (
+  state: SimulationState,
+  config: SystemConfig,
+  labels: Record<string, number>
+) => (state.isFinished ? state : nextCycle(state, config, labels));
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+export interface ComparedRow {
+  key: string; // pc and occurrence, e.g. "8#2" for the third run of 8
+  a: InstructionLine | null;
+  b: InstructionLine | null;
+  diverged: (keyof InstructionLine)[]; // Timing fields that differ
+}
+
+export const TIMING_FIELDS = [
+  "issueCycle",
+  "execStartCycle",
+  "execEndCycle",
+  "writeCycle",
+  "commitCycle",
+] as const;
+
+// Dynamic instances on the committed path, keyed by pc and how many times
+// that pc issued before. Squashed instances have no counterpart.
+const keyInstances = (state: SimulationState) => {
+  const seen: { [pc: number]: number } = {};
+  const keyed = new Map<string, InstructionLine>();
+  [...state.instructions]
+    .filter((i) => !i.squashed)
+    .sort(
+      (x, y) =>
+        (x.issueCycle ?? Infinity) - (y.issueCycle ?? Infinity) || x.id - y.id
+    )
+    .forEach((inst) => {
+      const n = seen[inst.pcAddress] ?? 0;
+      seen[inst.pcAddress] = n + 1;
+      keyed.set(`${inst.pcAddress}#${n}`, inst);
+    });
+  return keyed;
+};
+
+export const compareInstructions = (
+  a: SimulationState,
+  b: SimulationState
+): ComparedRow[] => {
+  const left = keyInstances(a);
+  const right = keyInstances(b);
+  const keys = Array.from(new Set([...left.keys(), ...right.keys()]));
+
+  const rows = keys.map((key) => {
+    const x = left.get(key) ?? null;
+    const y = right.get(key) ?? null;
+    const diverged =
+      x && y ? TIMING_FIELDS.filter((f) => x[f] !== y[f]) : [...TIMING_FIELDS];
+    return { key, a: x, b: y, diverged };
+  });
+
+  // Issue order of whichever side got there first, then program order
+  const first = (r: ComparedRow) =>
+    Math.min(r.a?.issueCycle ?? Infinity, r.b?.issueCycle ?? Infinity);
+  const pc = (r: ComparedRow) => (r.a ?? r.b)!.pcAddress;
+  return rows.sort((r, s) => first(r) - first(s) || pc(r) - pc(s));
+};
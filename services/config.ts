@@ -0,0 +1,207 @@
+// services/config.ts
+// Checks a SystemConfig before it is used, and reads/writes it as JSON so an
+// assignment can ship its exact setup.
+import {
+  BranchPredictorType,
+  CDBArbitration,
+  ConfigError,
+  ExceptionHandling,
+  LoadStorePolicy,
+  ReplacementPolicy,
+  SimulationEngine,
+  SystemConfig,
+  WritePolicy,
+} from "../types";
+import { DEFAULT_CONFIG, INITIAL_REGISTERS } from "../constants";
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const isPowerOfTwo = (n: number) => n > 0 && (n & (n - 1)) === 0;
+
+export const validateConfig = (config: SystemConfig): ConfigError[] => {
+  const errors: ConfigError[] = [];
+  // Only the first problem of each field is reported
+  const check = (ok: boolean, field: string, message: string) => {
+    if (!ok && !errors.some((e) => e.field === field))
+      errors.push({ field, message });
+  };
+  const atLeast = (value: number, min: number, field: string) =>
+    check(
+      Number.isInteger(value) && value >= min,
+      field,
+      `Must be a whole number, at least ${min}`
+    );
+  const oneOf = (value: string, allowed: object, field: string) =>
+    check(
+      Object.values(allowed).includes(value),
+      field,
+      `Unknown value "${value}"`
+    );
+
+  oneOf(config.engine, SimulationEngine, "engine");
+  Object.entries(config.rsSizes).forEach(([type, n]) =>
+    atLeast(n, 1, `rsSizes.${type}`)
+  );
+  Object.entries(config.latencies).forEach(([op, n]) =>
+    atLeast(n, 1, `latencies.${op}`)
+  );
+  Object.entries(config.functionalUnits).forEach(([type, unit]) =>
+    atLeast(unit.count, 1, `functionalUnits.${type}.count`)
+  );
+
+  config.cache.levels.forEach((level, i) => {
+    const field = `cache.levels.${i}`;
+    atLeast(level.blockSize, 1, `${field}.blockSize`);
+    check(
+      isPowerOfTwo(level.blockSize),
+      `${field}.blockSize`,
+      "Must be a power of two"
+    );
+    atLeast(level.cacheSize, 1, `${field}.cacheSize`);
+    check(
+      level.blockSize > 0 && level.cacheSize % level.blockSize === 0,
+      `${field}.cacheSize`,
+      `Must be a multiple of the block size (${level.blockSize})`
+    );
+    atLeast(level.associativity, 1, `${field}.associativity`);
+    const blocks = Math.floor(level.cacheSize / level.blockSize);
+    check(
+      !(blocks >= 1) || blocks % level.associativity === 0,
+      `${field}.associativity`,
+      `Must divide the number of blocks (${blocks})`
+    );
+    atLeast(level.hitLatency, 0, `${field}.hitLatency`);
+    oneOf(level.replacement, ReplacementPolicy, `${field}.replacement`);
+    oneOf(level.writePolicy, WritePolicy, `${field}.writePolicy`);
+    // A block of this level has to hold whole blocks of the one above
+    const above = config.cache.levels[i - 1];
+    if (above)
+      check(
+        level.blockSize >= above.blockSize,
+        `${field}.blockSize`,
+        `Cannot be smaller than the ${above.name} block size`
+      );
+  });
+  atLeast(config.cache.memoryLatency, 1, "cache.memoryLatency");
+  if (config.cache.nonBlocking) atLeast(config.cache.mshrs, 1, "cache.mshrs");
+
+  atLeast(config.rob.entries, 1, "rob.entries");
+  if (config.physicalRegisters.enabled) {
+    check(config.rob.enabled, "physicalRegisters.enabled", "Needs the ROB");
+    // Every architectural register is mapped, plus at least one spare
+    atLeast(
+      config.physicalRegisters.count,
+      INITIAL_REGISTERS.length + 1,
+      "physicalRegisters.count"
+    );
+  }
+  oneOf(config.loadStorePolicy, LoadStorePolicy, "loadStorePolicy");
+  oneOf(
+    config.branchPredictor.type,
+    BranchPredictorType,
+    "branchPredictor.type"
+  );
+  atLeast(config.branchPredictor.tableSize, 1, "branchPredictor.tableSize");
+
+  atLeast(config.issueWidth, 1, "issueWidth");
+  atLeast(config.cdb.count, 1, "cdb.count");
+  oneOf(config.cdb.arbitration, CDBArbitration, "cdb.arbitration");
+
+  atLeast(config.memorySize, 8, "memorySize");
+  check(config.memorySize % 8 === 0, "memorySize", "Must be a multiple of 8");
+  oneOf(config.exceptionHandling, ExceptionHandling, "exceptionHandling");
+  atLeast(config.maxCycles, 1, "maxCycles");
+  return errors;
+};
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+export const configToJSON = (config: SystemConfig) =>
+  JSON.stringify(config, null, 2);
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const joinPath = (path: string, key: string | number) =>
+  path ? `${path}.${key}` : `${key}`;
+
+// Lays `raw` over `base`, checking each value has the type of the default.
+// List items are filled in from the first default item.
+const mergeOver = (
+  base: unknown,
+  raw: unknown,
+  path: string,
+  errors: ConfigError[]
+): unknown => {
+  if (raw === undefined) return base;
+  if (Array.isArray(base)) {
+    if (!Array.isArray(raw)) {
+      errors.push({ field: path, message: "Expected a list" });
+      return base;
+    }
+    return raw.map((item, i) =>
+      mergeOver(base[0], item, joinPath(path, i), errors)
+    );
+  }
+  if (isObject(base)) {
+    if (!isObject(raw)) {
+      errors.push({ field: path, message: "Expected an object" });
+      return base;
+    }
+    Object.keys(raw)
+      .filter((key) => !(key in base))
+      .forEach((key) =>
+        errors.push({ field: joinPath(path, key), message: "Unknown setting" })
+      );
+    const merged: Record<string, unknown> = {};
+    Object.entries(base).forEach(([key, value]) => {
+      merged[key] = mergeOver(value, raw[key], joinPath(path, key), errors);
+    });
+    return merged;
+  }
+  if (typeof raw !== typeof base) {
+    errors.push({ field: path, message: `Expected a ${typeof base}` });
+    return base;
+  }
+  return raw;
+};
+
+// Reads a config file; settings it leaves out keep their default values.
+// `config` is null unless the result is valid.
+export const parseConfigJSON = (
+  text: string
+): { config: SystemConfig | null; errors: ConfigError[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    const message = `Not valid JSON: ${(e as Error).message}`;
+    return { config: null, errors: [{ field: "", message }] };
+  }
+
+  const errors: ConfigError[] = [];
+  const config = mergeOver(DEFAULT_CONFIG, raw, "", errors) as SystemConfig;
+  if (errors.length > 0) return { config: null, errors };
+
+  // Unnamed levels are named after their position
+  if (isObject(raw) && isObject(raw.cache) && Array.isArray(raw.cache.levels)) {
+    const rawLevels: unknown[] = raw.cache.levels;
+    config.cache.levels = config.cache.levels.map((level, i) => {
+      const rawLevel = rawLevels[i];
+      return {
+        ...level,
+        name:
+          isObject(rawLevel) && typeof rawLevel.name === "string"
+            ? rawLevel.name
+            : `L${i + 1}`,
+      };
+    });
+  }
+
+  const invalid = validateConfig(config);
+  return { config: invalid.length > 0 ? null : config, errors: invalid };
+};
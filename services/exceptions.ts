@@ -0,0 +1,29 @@
+// services/exceptions.ts
+// The faults an instruction can raise. Both engines and the golden model use
+// these checks, so they trap on the same instructions with the same message.
+import { InstructionLine, SystemConfig } from "../types";
+import { checkAlignment, checkBounds } from "./memory";
+
+// Loads and stores: outside memory, or not aligned to the access width
+export const checkAccess = (
+  addr: number,
+  op: string,
+  config: SystemConfig
+): string | null => checkBounds(addr, op, config) ?? checkAlignment(addr, op);
+
+export const checkDivide = (op: string, divisor: number): string | null =>
+  divisor === 0 ? `${op} divides by zero` : null;
+
+// Halting right away, without a ROB, leaves a precise state only by luck:
+// every older instruction must have written back and no younger one
+export const isPreciseTrap = (
+  instructions: InstructionLine[],
+  instId: number
+) =>
+  instructions.every(
+    (i) =>
+      i.issueCycle === null ||
+      i.squashed ||
+      i.id === instId ||
+      (i.id < instId ? i.writeCycle !== null : i.writeCycle === null)
+  );
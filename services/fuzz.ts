@@ -0,0 +1,401 @@
+// services/fuzz.ts
+// Differential fuzzing: random programs run under random configurations,
+// checked against the golden model, with failures shrunk to a small case.
+import {
+  BranchPredictorType,
+  CacheLevelConfig,
+  CDBArbitration,
+  ExceptionHandling,
+  InstructionLine,
+  LoadStorePolicy,
+  OpType,
+  ReplacementPolicy,
+  SimulationEngine,
+  SimulationState,
+  StallKind,
+  SystemConfig,
+  WritePolicy,
+} from "../types";
+import { DEFAULT_CONFIG, INITIAL_REGISTERS } from "../constants";
+import { parseAssembly } from "./parser";
+import { initializeState, nextCycle } from "./simulator";
+import { runGoldenModel, verifyRun } from "./interpreter";
+
+// ============================================================================
+// RANDOM SOURCE
+// ============================================================================
+
+// mulberry32, so that a seed always reproduces the same campaign
+export const createRandom = (seed: number) => {
+  let state = seed | 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) =>
+    min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(items: T[]): T => items[int(0, items.length - 1)];
+  return { next, int, pick, bool: () => next() < 0.5 };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+// ============================================================================
+// PROGRAM GENERATOR
+// ============================================================================
+
+// Register roles keep every generated program valid and terminating:
+// R1/R2 are free integer registers, R3 is the array pointer (only ever
+// stepped by 8 inside loops), R4 is the loop counter and R5 is a nonzero
+// divisor set once at the start.
+const FP_REGS = INITIAL_REGISTERS.filter((r) => r.startsWith("F"));
+const INT_REGS = ["R1", "R2"];
+const ARRAY_DOUBLES = 16;
+const MAX_LOOP_TRIPS = 4;
+
+const randomOperation = (rnd: Random): string => {
+  const f = () => rnd.pick(FP_REGS);
+  const r = () => rnd.pick(INT_REGS);
+  // Offsets stay inside ARR even after MAX_LOOP_TRIPS pointer steps
+  const offset = () => rnd.int(0, ARRAY_DOUBLES - MAX_LOOP_TRIPS - 1) * 8;
+  const base = () => rnd.pick(["R0", "R3"]);
+
+  switch (rnd.int(0, 11)) {
+    case 0:
+      return `L.D ${f()}, ARR+${offset()}(${base()})`;
+    case 1:
+      return `S.D ${f()}, ARR+${offset()}(${base()})`;
+    case 2:
+      return rnd.bool()
+        ? `L.S ${f()}, ARR+${offset() + rnd.pick([0, 4])}(${base()})`
+        : `S.S ${f()}, ARR+${offset() + rnd.pick([0, 4])}(${base()})`;
+    case 3:
+      return rnd.bool()
+        ? `LW ${r()}, ARR+${offset() + rnd.pick([0, 4])}(${base()})`
+        : `SW ${r()}, ARR+${offset() + rnd.pick([0, 4])}(${base()})`;
+    case 4:
+      return `${rnd.pick(["LD", "SD"])} ${r()}, ARR+${offset()}(${base()})`;
+    case 5:
+    case 6:
+      return `${rnd.pick(["ADD.D", "SUB.D"])} ${f()}, ${f()}, ${f()}`;
+    case 7:
+      return `${rnd.pick(["MUL.D", "DIV.D"])} ${f()}, ${f()}, ${f()}`;
+    case 8: {
+      const op = rnd.pick(["ADD", "SUB", "DADD", "DSUB"]);
+      return `${op} ${r()}, ${r()}, ${r()}`;
+    }
+    case 9:
+      return rnd.bool()
+        ? `MUL ${r()}, ${r()}, ${r()}`
+        : `DIV ${r()}, ${r()}, R5`;
+    default: {
+      const op = rnd.pick(["ADDI", "DADDI", "SUBI", "DSUBI"]);
+      return `${op} ${r()}, ${r()}, ${rnd.int(-16, 16)}`;
+    }
+  }
+};
+
+// Returns the program as source lines
+export const generateProgram = (rnd: Random, length = 12): string[] => {
+  const values = Array.from({ length: ARRAY_DOUBLES }, () =>
+    (rnd.int(-40, 40) / 4).toString()
+  );
+  const lines = [".data", `ARR: .double ${values.join(", ")}`, ".text"];
+  lines.push(`ADDI R5, R0, ${rnd.pick([-3, -2, -1, 1, 2, 3, 4])}`);
+
+  let loops = 0;
+  let skips = 0;
+  let remaining = length;
+  while (remaining > 0) {
+    if (rnd.next() < 0.15 && remaining >= 3) {
+      // Forward branch over a few operations; the landing op always exists
+      const body = rnd.int(1, Math.min(3, remaining - 2));
+      const label = `SKIP${skips++}`;
+      lines.push(
+        rnd.pick([
+          `BEQZ ${rnd.pick(INT_REGS)}, ${label}`,
+          `BNEZ ${rnd.pick(INT_REGS)}, ${label}`,
+          `BEQ ${rnd.pick(INT_REGS)}, ${rnd.pick(INT_REGS)}, ${label}`,
+          `BNE ${rnd.pick(INT_REGS)}, ${rnd.pick(INT_REGS)}, ${label}`,
+        ])
+      );
+      for (let i = 0; i < body; i++) lines.push(randomOperation(rnd));
+      lines.push(`${label}: ${randomOperation(rnd)}`);
+      remaining -= body + 2;
+    } else if (rnd.next() < 0.2 && remaining >= 3) {
+      // Bounded loop: R4 counts down, R3 walks the array
+      const body = rnd.int(1, Math.min(5, remaining - 2));
+      const label = `LOOP${loops++}`;
+      lines.push(`ADDI R4, R0, ${rnd.int(1, MAX_LOOP_TRIPS)}`);
+      lines.push("ADDI R3, R0, 0");
+      for (let i = 0; i < body; i++)
+        lines.push((i === 0 ? `${label}: ` : "") + randomOperation(rnd));
+      lines.push("ADDI R3, R3, 8");
+      lines.push("SUBI R4, R4, 1");
+      lines.push(`BNEZ R4, ${label}`);
+      remaining -= body + 2;
+    } else {
+      lines.push(randomOperation(rnd));
+      remaining--;
+    }
+  }
+  return lines;
+};
+
+// ============================================================================
+// CONFIG GENERATOR
+// ============================================================================
+
+const randomCacheLevel = (
+  rnd: Random,
+  name: string,
+  minBlock: number
+): CacheLevelConfig => {
+  const blockSize = rnd.pick([4, 8, 16].filter((b) => b >= minBlock));
+  const blocks = rnd.pick([1, 2, 4, 8]);
+  return {
+    name,
+    blockSize,
+    cacheSize: blockSize * blocks,
+    associativity: rnd.pick([1, 2, 4, 8].filter((a) => a <= blocks)),
+    hitLatency: rnd.int(1, name === "L1" ? 2 : 6),
+    replacement: rnd.pick(Object.values(ReplacementPolicy)),
+    seed: rnd.int(1, 1000),
+    writePolicy: rnd.pick(Object.values(WritePolicy)),
+    writeAllocate: rnd.bool(),
+  };
+};
+
+export const randomConfig = (rnd: Random): SystemConfig => {
+  const l1 = randomCacheLevel(rnd, "L1", 4);
+  const rob = { enabled: rnd.bool(), entries: rnd.int(2, 12) };
+  return {
+    ...DEFAULT_CONFIG,
+    engine:
+      rnd.next() < 0.25
+        ? SimulationEngine.SCOREBOARD
+        : SimulationEngine.TOMASULO,
+    rsSizes: {
+      ADD: rnd.int(1, 4),
+      MULT: rnd.int(1, 3),
+      LOAD: rnd.int(1, 4),
+      STORE: rnd.int(1, 4),
+      INTEGER: rnd.int(1, 3),
+    },
+    latencies: {
+      [OpType.LOAD]: rnd.int(1, 4),
+      [OpType.STORE]: rnd.int(1, 4),
+      [OpType.ADD]: rnd.int(1, 6),
+      [OpType.SUB]: rnd.int(1, 6),
+      [OpType.MULT]: rnd.int(1, 12),
+      [OpType.DIV]: rnd.int(1, 20),
+      [OpType.INTEGER]: rnd.int(1, 2),
+      [OpType.BRANCH]: rnd.int(1, 2),
+    },
+    functionalUnits: {
+      ADD: { count: rnd.int(1, 3), pipelined: rnd.next() < 0.7 },
+      MULT: { count: rnd.int(1, 2), pipelined: rnd.next() < 0.7 },
+      INTEGER: { count: rnd.int(1, 3), pipelined: rnd.next() < 0.7 },
+      MEMORY: { count: rnd.int(1, 4), pipelined: rnd.next() < 0.7 },
+    },
+    cache: {
+      enabled: rnd.next() < 0.8,
+      levels: rnd.bool()
+        ? [l1]
+        : [l1, randomCacheLevel(rnd, "L2", l1.blockSize)],
+      memoryLatency: rnd.int(2, 20),
+      nonBlocking: rnd.bool(),
+      mshrs: rnd.int(1, 4),
+    },
+    rob,
+    physicalRegisters: {
+      enabled: rob.enabled && rnd.bool(),
+      count: INITIAL_REGISTERS.length + rnd.int(1, 16),
+    },
+    loadStorePolicy: rnd.pick(Object.values(LoadStorePolicy)),
+    branchPredictor: {
+      type: rnd.pick(Object.values(BranchPredictorType)),
+      tableSize: rnd.pick([1, 2, 4, 16]),
+    },
+    issueWidth: rnd.int(1, 3),
+    cdb: {
+      count: rnd.int(1, 3),
+      arbitration: rnd.pick(Object.values(CDBArbitration)),
+    },
+    exceptionHandling: rnd.pick(Object.values(ExceptionHandling)),
+    maxCycles: 5000,
+  };
+};
+
+// ============================================================================
+// RUNNING A CASE
+// ============================================================================
+
+const GOLDEN_STEP_LIMIT = 2000;
+
+export interface FuzzFailure {
+  reason: string; // What went wrong, e.g. "F4: expected 2, got 0"
+  cycles: number;
+}
+
+// Each instruction counts at most one stall of each kind per cycle, so no
+// kind can gain more stall cycles than there are instructions in flight,
+// plus one for the instruction held at issue. Returns what broke, if anything.
+const checkStallCounts = (
+  prev: SimulationState,
+  state: SimulationState
+): string | null => {
+  const twice = state.stalls.find((st, i) =>
+    state.stalls
+      .slice(0, i)
+      .some((other) => other.instId === st.instId && other.kind === st.kind)
+  );
+  if (twice)
+    return `Cycle ${state.cycle}: #${twice.instId} stalls twice on ${twice.kind}`;
+
+  const retiredAt = (inst: InstructionLine) =>
+    state.rob.length > 0 ? inst.commitCycle : inst.writeCycle;
+  const inFlight = state.instructions.filter(
+    (i) =>
+      i.issueCycle !== null &&
+      (retiredAt(i) === null || retiredAt(i)! >= state.cycle)
+  ).length;
+  const kinds = Object.keys(state.counters.stallCycles) as StallKind[];
+  const over = kinds.find(
+    (k) =>
+      state.counters.stallCycles[k] - prev.counters.stallCycles[k] >
+      inFlight + 1
+  );
+  return over
+    ? `Cycle ${state.cycle}: more ${over} stalls than instructions in flight`
+    : null;
+};
+
+// Runs one program under one config; null means it matched the reference,
+// or that the reference itself does not finish (e.g. a shrunk loop that
+// lost its counter), which is no case to compare. A halt on an exception is
+// compared only when the ROB makes it precise.
+export const runCase = (
+  source: string,
+  config: SystemConfig
+): FuzzFailure | null => {
+  const registers: { [key: string]: number } = {};
+  INITIAL_REGISTERS.forEach((name) => (registers[name] = 0));
+  const { instructions, labels, memory, diagnostics } = parseAssembly(source);
+  const error = diagnostics.find((d) => d.severity === "error");
+  if (error) return { reason: `Parse error: ${error.message}`, cycles: 0 };
+
+  const golden = runGoldenModel(
+    instructions,
+    labels,
+    registers,
+    memory,
+    config,
+    GOLDEN_STEP_LIMIT
+  );
+  const precise =
+    config.engine === SimulationEngine.TOMASULO && config.rob.enabled;
+  if (!golden.finished && !(golden.trapped && precise)) return null;
+
+  let cycles = 0;
+  try {
+    const initial = initializeState(instructions, config, registers, memory);
+    let state = initial;
+    while (!state.isFinished) {
+      const prev = state;
+      state = nextCycle(state, config, labels);
+      const stallError = checkStallCounts(prev, state);
+      if (stallError) return { reason: stallError, cycles: state.cycle };
+    }
+    cycles = state.cycle;
+
+    const { mismatches } = verifyRun(initial, state, labels, config);
+    if (state.cycle >= config.maxCycles)
+      return { reason: `No progress after ${state.cycle} cycles`, cycles };
+    if (golden.trapped && !state.trap)
+      return { reason: `No exception taken: ${golden.fault}`, cycles };
+    if (state.trap && !golden.trapped)
+      return { reason: `Unexpected exception: ${state.trap.message}`, cycles };
+    if (mismatches.length > 0)
+      return {
+        reason: mismatches
+          .map((m) => `${m.location}: expected ${m.expected}, got ${m.actual}`)
+          .join("; "),
+        cycles,
+      };
+    return null;
+  } catch (e) {
+    return { reason: `Crash: ${(e as Error).message}`, cycles };
+  }
+};
+
+// ============================================================================
+// SHRINKING
+// ============================================================================
+
+// Greedy reduction: drop instructions, then reset config fields to their
+// defaults, keeping every change after which the case still fails.
+export const shrinkCase = (
+  lines: string[],
+  config: SystemConfig
+): { lines: string[]; config: SystemConfig; failure: FuzzFailure } => {
+  let best = { lines, config, failure: runCase(lines.join("\n"), config)! };
+  const fails = (candidate: string[], cfg: SystemConfig) => {
+    const failure = runCase(candidate.join("\n"), cfg);
+    // A parse error is a broken candidate, not a reproduction
+    if (!failure || failure.reason.startsWith("Parse error")) return false;
+    best = { lines: candidate, config: cfg, failure };
+    return true;
+  };
+
+  let progress = true;
+  while (progress) {
+    progress = false;
+    const textStart = best.lines.indexOf(".text") + 1;
+    for (let i = best.lines.length - 1; i >= textStart; i--) {
+      const candidate = best.lines.filter((_, j) => j !== i);
+      // Keep a removed line's label on the next instruction
+      const label = best.lines[i].match(/^(\w+):/);
+      if (label && i < best.lines.length - 1)
+        candidate[i] = `${label[1]}: ${candidate[i].replace(/^\w+:\s*/, "")}`;
+      if (fails(candidate, best.config)) progress = true;
+    }
+    // Drop labels nothing branches to any more
+    best.lines.forEach((line, i) => {
+      if (!/^\w+:/.test(line) || i < textStart) return;
+      const candidate = [...best.lines];
+      candidate[i] = line.replace(/^\w+:\s*/, "");
+      if (fails(candidate, best.config)) progress = true;
+    });
+
+    // Each simplification is applied on top of the current best config
+    const simplifications: ((cfg: SystemConfig) => Partial<SystemConfig>)[] = [
+      () => ({ rob: DEFAULT_CONFIG.rob }),
+      () => ({ physicalRegisters: DEFAULT_CONFIG.physicalRegisters }),
+      (cfg) => ({ cache: { ...cfg.cache, enabled: false } }),
+      (cfg) => ({
+        cache: { ...cfg.cache, levels: cfg.cache.levels.slice(0, 1) },
+      }),
+      () => ({ loadStorePolicy: DEFAULT_CONFIG.loadStorePolicy }),
+      () => ({ branchPredictor: DEFAULT_CONFIG.branchPredictor }),
+      () => ({ rsSizes: DEFAULT_CONFIG.rsSizes }),
+      () => ({ latencies: DEFAULT_CONFIG.latencies }),
+      () => ({ issueWidth: DEFAULT_CONFIG.issueWidth }),
+      () => ({ cdb: DEFAULT_CONFIG.cdb }),
+      () => ({ exceptionHandling: DEFAULT_CONFIG.exceptionHandling }),
+      () => ({ functionalUnits: DEFAULT_CONFIG.functionalUnits }),
+    ];
+    simplifications.forEach((simplify) => {
+      const cfg = { ...best.config, ...simplify(best.config) };
+      if (
+        JSON.stringify(cfg) !== JSON.stringify(best.config) &&
+        fails(best.lines, cfg)
+      )
+        progress = true;
+    });
+  }
+  return best;
+};
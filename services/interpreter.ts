@@ -0,0 +1,168 @@
+// services/interpreter.ts
+// Golden model: runs the program one instruction at a time, in order, with
+// no timing at all. Its final state is what a correct Tomasulo run must match.
+import {
+  ExceptionHandling,
+  InstructionLine,
+  Mismatch,
+  SimulationState,
+  SystemConfig,
+} from "../types";
+import { readMemory, writeMemory } from "./memory";
+import { checkAccess, checkDivide } from "./exceptions";
+
+// ============================================================================
+// INTERPRETER
+// ============================================================================
+
+export interface GoldenResult {
+  registers: { [key: string]: number };
+  memory: { [address: number]: number };
+  steps: number; // Instructions executed
+  finished: boolean; // False if it faulted or hit the step limit
+  fault: string | null;
+  // Halted on an exception: the state is the one just before the faulting
+  // instruction, what a precise run must show
+  trapped: boolean;
+  exceptions: number; // Raised and skipped, or 1 if it halted on one
+}
+
+export const runGoldenModel = (
+  instructions: InstructionLine[],
+  labels: Record<string, number>,
+  initialRegs: { [key: string]: number },
+  initialMemory: { [address: number]: number },
+  config: SystemConfig,
+  maxSteps = 100000
+): GoldenResult => {
+  const registers = { ...initialRegs };
+  const memory = { ...initialMemory };
+  // Registers outside the register file (e.g. R0) read as 0 and drop writes
+  const read = (name: string) => registers[name] ?? 0;
+  const write = (name: string, value: number) => {
+    if (name in registers) registers[name] = value;
+  };
+
+  let pc = 0;
+  let steps = 0;
+  let exceptions = 0;
+  const result = (
+    finished: boolean,
+    fault: string | null,
+    trapped = false
+  ) => ({
+    registers,
+    memory,
+    steps,
+    finished,
+    fault,
+    trapped,
+    exceptions,
+  });
+  // Halts, or lets the caller go on with the instruction skipped
+  const raise = (fault: string | null) => {
+    if (fault) exceptions++;
+    return !!fault && config.exceptionHandling === ExceptionHandling.HALT;
+  };
+
+  while (steps < maxSteps) {
+    const inst = instructions.find((i) => i.pcAddress === pc);
+    if (!inst) return result(true, null);
+    steps++;
+    pc += 4;
+
+    const op = inst.op.toUpperCase();
+    // The second source is a register if it names one, else the immediate
+    const src2 = () =>
+      inst.src2 in registers ? read(inst.src2) : inst.immediate;
+
+    if (["L.D", "L.S", "LW", "LD"].includes(op)) {
+      const addr = read(inst.src1) + inst.immediate;
+      const fault = checkAccess(addr, op, config);
+      if (raise(fault)) return result(false, fault, true);
+      write(inst.dest, fault ? 0 : readMemory(memory, addr, op));
+    } else if (["S.D", "S.S", "SW", "SD"].includes(op)) {
+      const addr = read(inst.src1) + inst.immediate;
+      const fault = checkAccess(addr, op, config);
+      if (raise(fault)) return result(false, fault, true);
+      if (!fault) writeMemory(memory, addr, op, read(inst.dest));
+    } else if (["BNE", "BEQ", "BNEZ", "BEQZ"].includes(op)) {
+      // BNEZ/BEQZ compare against the label slot, which reads as 0
+      const a = read(inst.dest);
+      const b = read(inst.src1);
+      const taken = op.startsWith("BNE") ? a !== b : a === b;
+      if (taken && labels[inst.src2] !== undefined) pc = labels[inst.src2];
+    } else if (op.startsWith("MUL")) {
+      write(inst.dest, read(inst.src1) * src2());
+    } else if (op.startsWith("DIV")) {
+      const d = src2();
+      const fault = checkDivide(op, d);
+      if (raise(fault)) return result(false, fault, true);
+      write(inst.dest, fault ? 0 : read(inst.src1) / d);
+    } else if (op.includes("ADD")) {
+      write(inst.dest, read(inst.src1) + src2());
+    } else {
+      write(inst.dest, read(inst.src1) - src2());
+    }
+  }
+  return result(false, `Stopped after ${maxSteps} instructions`);
+};
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+const sameValue = (a: number, b: number) => Object.is(a, b) || a === b;
+
+const hexWord = (memory: { [address: number]: number }, base: number) =>
+  Array.from({ length: 8 }, (_, i) =>
+    (memory[base + i] || 0).toString(16).padStart(2, "0")
+  ).join(" ");
+
+// Compares the final architectural state of a finished run with the golden
+// model started from the run's initial state. Returns every difference;
+// memory differences are grouped by 8-byte word.
+export const verifyRun = (
+  initial: SimulationState,
+  final: SimulationState,
+  labels: Record<string, number>,
+  config: SystemConfig
+): { golden: GoldenResult; mismatches: Mismatch[] } => {
+  const initialRegs: { [key: string]: number } = {};
+  Object.values(initial.registers).forEach(
+    (r) => (initialRegs[r.name] = r.value)
+  );
+  const golden = runGoldenModel(
+    initial.instructions,
+    labels,
+    initialRegs,
+    initial.memory,
+    config
+  );
+
+  const mismatches: Mismatch[] = [];
+  Object.keys(golden.registers).forEach((name) => {
+    const actual = final.registers[name]?.value ?? 0;
+    if (!sameValue(golden.registers[name], actual))
+      mismatches.push({
+        location: name,
+        expected: String(golden.registers[name]),
+        actual: String(actual),
+      });
+  });
+
+  const words = new Set<number>();
+  [golden.memory, final.memory].forEach((mem) =>
+    Object.keys(mem).forEach((addr) => words.add(Math.floor(+addr / 8) * 8))
+  );
+  Array.from(words)
+    .sort((a, b) => a - b)
+    .forEach((base) => {
+      const expected = hexWord(golden.memory, base);
+      const actual = hexWord(final.memory, base);
+      if (expected !== actual)
+        mismatches.push({ location: `Mem[${base}]`, expected, actual });
+    });
+
+  return { golden, mismatches };
+};
@@ -0,0 +1,143 @@
+// services/memory.ts
+import { SystemConfig } from "../types";
+
+// ============================================================================
+// ACCESS WIDTHS
+// ============================================================================
+
+export type MemoryKind = "DOUBLE" | "FLOAT" | "INT32" | "INT64";
+
+// Bytes moved and how they are interpreted, by mnemonic
+export const getAccessWidth = (
+  op: string
+): { bytes: number; kind: MemoryKind } => {
+  switch (op.toUpperCase()) {
+    case "L.S":
+    case "S.S":
+      return { bytes: 4, kind: "FLOAT" };
+    case "LW":
+    case "SW":
+      return { bytes: 4, kind: "INT32" };
+    case "LD":
+    case "SD":
+      return { bytes: 8, kind: "INT64" };
+    default:
+      return { bytes: 8, kind: "DOUBLE" }; // L.D / S.D
+  }
+};
+
+// Returns an error message when the access falls outside memory
+export const checkBounds = (
+  addr: number,
+  op: string,
+  config: SystemConfig
+): string | null => {
+  const { bytes } = getAccessWidth(op);
+  if (addr < 0 || addr + bytes > config.memorySize)
+    return `${op} at address ${addr} is out of bounds (memory is ${config.memorySize} bytes)`;
+  return null;
+};
+
+// Returns an error message when the address is not a multiple of the width
+export const checkAlignment = (addr: number, op: string): string | null => {
+  const { bytes } = getAccessWidth(op);
+  if (addr % bytes !== 0)
+    return `${op} at address ${addr} is misaligned (${bytes}-byte access)`;
+  return null;
+};
+
+// ============================================================================
+// ENCODING (little-endian)
+// ============================================================================
+
+export const encodeValue = (value: number, kind: MemoryKind): number[] => {
+  const view = new DataView(new ArrayBuffer(8));
+  switch (kind) {
+    case "FLOAT":
+      view.setFloat32(0, value, true);
+      return Array.from(new Uint8Array(view.buffer, 0, 4));
+    case "INT32":
+      view.setInt32(0, Number.isFinite(value) ? Math.trunc(value) : 0, true);
+      return Array.from(new Uint8Array(view.buffer, 0, 4));
+    case "INT64":
+      view.setBigInt64(
+        0,
+        BigInt(Number.isFinite(value) ? Math.trunc(value) : 0),
+        true
+      );
+      return Array.from(new Uint8Array(view.buffer));
+    default:
+      view.setFloat64(0, value, true);
+      return Array.from(new Uint8Array(view.buffer));
+  }
+};
+
+export const decodeValue = (bytes: number[], kind: MemoryKind): number => {
+  const view = new DataView(new Uint8Array(8).buffer);
+  bytes.forEach((b, i) => view.setUint8(i, b));
+  switch (kind) {
+    case "FLOAT":
+      return view.getFloat32(0, true);
+    case "INT32":
+      return view.getInt32(0, true);
+    case "INT64":
+      return Number(view.getBigInt64(0, true));
+    default:
+      return view.getFloat64(0, true);
+  }
+};
+
+// ============================================================================
+// READ / WRITE
+// ============================================================================
+
+// Memory holds one byte per address; missing addresses read as zero
+export const readMemory = (
+  memory: { [address: number]: number },
+  addr: number,
+  op: string
+): number => {
+  const { bytes, kind } = getAccessWidth(op);
+  const raw: number[] = [];
+  for (let i = 0; i < bytes; i++) raw.push(memory[addr + i] || 0);
+  return decodeValue(raw, kind);
+};
+
+export const writeMemory = (
+  memory: { [address: number]: number },
+  addr: number,
+  op: string,
+  value: number
+) => {
+  const { kind } = getAccessWidth(op);
+  encodeValue(value, kind).forEach((b, i) => {
+    memory[addr + i] = b;
+  });
+};
+
+// Store-to-load forwarding across widths: the load must lie entirely inside
+// the store, and then reads its bytes out of the stored value
+export const forwardValue = (
+  storeAddr: number,
+  storeOp: string,
+  storeValue: number,
+  loadAddr: number,
+  loadOp: string
+): number | null => {
+  const store = getAccessWidth(storeOp);
+  const load = getAccessWidth(loadOp);
+  const offset = loadAddr - storeAddr;
+  if (offset < 0 || offset + load.bytes > store.bytes) return null;
+  const bytes = encodeValue(storeValue, store.kind);
+  return decodeValue(bytes.slice(offset, offset + load.bytes), load.kind);
+};
+
+// True when two accesses touch at least one common byte
+export const accessesOverlap = (
+  addrA: number,
+  opA: string,
+  addrB: number,
+  opB: string
+) =>
+  addrA < addrB + getAccessWidth(opB).bytes &&
+  addrB < addrA + getAccessWidth(opA).bytes;
@@ -1,38 +1,398 @@
-import { InstructionLine } from "../types";
+import { Diagnostic, InstructionLine } from "../types";
+import { writeMemory } from "./memory";
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Operand layout of every mnemonic the engine understands.
+// Register classes: F = floating point, R = integer.
+type OperandFormat =
+  | { kind: "MEM"; data: "F" | "R" } // OP reg, offset(Rbase)
+  | { kind: "RRR"; regs: "F" | "R" } // OP dest, src1, src2
+  | { kind: "RRI" } // OP Rdest, Rsrc, imm
+  | { kind: "BRANCH" } // OP Rs, Rt, LABEL
+  | { kind: "BRANCHZ" }; // OP Rs, LABEL
+
+const INSTRUCTION_FORMATS: Record<string, OperandFormat> = {
+  "L.D": { kind: "MEM", data: "F" },
+  "L.S": { kind: "MEM", data: "F" },
+  "S.D": { kind: "MEM", data: "F" },
+  "S.S": { kind: "MEM", data: "F" },
+  LW: { kind: "MEM", data: "R" },
+  LD: { kind: "MEM", data: "R" },
+  SW: { kind: "MEM", data: "R" },
+  SD: { kind: "MEM", data: "R" },
+  "ADD.D": { kind: "RRR", regs: "F" },
+  "ADD.S": { kind: "RRR", regs: "F" },
+  "SUB.D": { kind: "RRR", regs: "F" },
+  "SUB.S": { kind: "RRR", regs: "F" },
+  "MUL.D": { kind: "RRR", regs: "F" },
+  "MUL.S": { kind: "RRR", regs: "F" },
+  "DIV.D": { kind: "RRR", regs: "F" },
+  "DIV.S": { kind: "RRR", regs: "F" },
+  MUL: { kind: "RRR", regs: "R" },
+  DIV: { kind: "RRR", regs: "R" },
+  ADD: { kind: "RRR", regs: "R" },
+  DADD: { kind: "RRR", regs: "R" },
+  SUB: { kind: "RRR", regs: "R" },
+  DSUB: { kind: "RRR", regs: "R" },
+  ADDI: { kind: "RRI" },
+  DADDI: { kind: "RRI" },
+  SUBI: { kind: "RRI" },
+  DSUBI: { kind: "RRI" },
+  BNE: { kind: "BRANCH" },
+  BEQ: { kind: "BRANCH" },
+  BNEZ: { kind: "BRANCHZ" },
+  BEQZ: { kind: "BRANCHZ" },
+};
+
+const OPERAND_COUNTS: Record<OperandFormat["kind"], number> = {
+  MEM: 2,
+  RRR: 3,
+  RRI: 3,
+  BRANCH: 3,
+  BRANCHZ: 2,
+};
+
+// Immediates and offsets are 16-bit signed, as in MIPS
+const IMM_MIN = -32768;
+const IMM_MAX = 32767;
+
+// Resolves a number, a data label, or LABEL+n / LABEL-n
+const resolveValue = (
+  text: string,
+  dataLabels: Record<string, number>
+): number | null => {
+  if (text.trim() !== "" && !isNaN(Number(text))) return Number(text);
+  const match = text.match(/^([A-Za-z_]\w*)\s*([+-]\s*\d+)?$/);
+  if (!match || !dataLabels.hasOwnProperty(match[1])) return null;
+  const offset = match[2] ? parseInt(match[2].replace(/\s/g, "")) : 0;
+  return dataLabels[match[1]] + offset;
+};
+
+// Everything after ; or # is a comment
+const stripComment = (line: string) => line.replace(/[;#].*$/, "");
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+// `registerNames` is the register file; names outside it are reported.
 export const parseAssembly = (
-  code: string
-): { instructions: InstructionLine[]; labels: Record<string, number> } => {
+  code: string,
+  registerNames?: string[]
+): {
+  instructions: InstructionLine[];
+  labels: Record<string, number>;
+  dataLabels: Record<string, number>;
+  memory: { [address: number]: number };
+  diagnostics: Diagnostic[];
+} => {
   const lines = code
     .split("\n")
-    .map((l) => l.trim())
-    .filter((l) => l.length > 0);
+    .map((text, i) => ({
+      text: stripComment(text).trim(),
+      line: i + 1,
+      source: text,
+    }))
+    .filter((l) => l.text.length > 0);
   const instructions: InstructionLine[] = [];
   const labels: Record<string, number> = {};
+  const dataLabels: Record<string, number> = {};
+  const memory: { [address: number]: number } = {};
+  const diagnostics: Diagnostic[] = [];
+
+  // Columns are 1-based and point at the first occurrence of `token`
+  const report = (
+    at: { line: number; source: string },
+    token: string,
+    severity: Diagnostic["severity"],
+    message: string
+  ) => {
+    const idx = token ? at.source.indexOf(token) : -1;
+    diagnostics.push({
+      line: at.line,
+      column: idx >= 0 ? idx + 1 : 1,
+      severity,
+      message,
+    });
+  };
 
   let pcCounter = 0;
+  let dataAddr = 0; // The data section starts at address 0
+  let inData = false;
+  let pendingData: string[] = []; // Data labels waiting for the next item
+
+  // Data labels point at the next item, after it has been aligned
+  const bindData = () => {
+    pendingData.forEach((l) => (dataLabels[l] = dataAddr));
+    pendingData = [];
+  };
+  const align = (bytes: number) => {
+    if (bytes > 1) dataAddr = Math.ceil(dataAddr / bytes) * bytes;
+    bindData();
+  };
+
+  // Lays out one data directive, aligning values to their size like MIPS
+  const emitData = (
+    at: { line: number; source: string },
+    name: string,
+    args: string[]
+  ) => {
+    const directive = name.toUpperCase();
+    const emit = (
+      size: number,
+      op: string,
+      parse: (v: string) => number | null
+    ) => {
+      if (args.length === 0)
+        report(at, name, "error", `${directive} needs at least one value`);
+      align(size);
+      args.forEach((v) => {
+        const value = parse(v);
+        if (value === null) report(at, v, "error", `Invalid value '${v}'`);
+        writeMemory(memory, dataAddr, op, value || 0);
+        dataAddr += size;
+      });
+    };
+    const parseFloatArg = (v: string) =>
+      isNaN(Number(v)) ? null : parseFloat(v);
 
-  // First pass: Find labels and clean code
-  const cleanLines: { raw: string; pc: number }[] = [];
+    switch (directive) {
+      case ".WORD":
+        emit(4, "SW", (v) => resolveValue(v, dataLabels));
+        break;
+      case ".FLOAT":
+        emit(4, "S.S", parseFloatArg);
+        break;
+      case ".DOUBLE":
+        emit(8, "S.D", parseFloatArg);
+        break;
+      case ".SPACE": {
+        const n = Number(args[0]);
+        if (args.length !== 1 || !Number.isInteger(n) || n < 0)
+          report(
+            at,
+            name,
+            "error",
+            ".SPACE takes one non-negative byte count"
+          );
+        bindData();
+        dataAddr += Number.isInteger(n) && n > 0 ? n : 0;
+        break;
+      }
+      case ".ALIGN": {
+        const n = Number(args[0]);
+        if (args.length !== 1 || !Number.isInteger(n) || n < 0 || n > 12)
+          report(
+            at,
+            name,
+            "error",
+            ".ALIGN takes a power of two from 0 to 12"
+          );
+        align(Number.isInteger(n) && n > 0 && n <= 12 ? 2 ** n : 1);
+        break;
+      }
+      default:
+        report(at, name, "error", `Unknown directive '${name}'`);
+    }
+  };
 
-  lines.forEach((line) => {
-    let currentLine = line;
+  // First pass: Find labels, lay out data and clean code
+  const cleanLines: {
+    raw: string;
+    pc: number;
+    line: number;
+    source: string;
+  }[] = [];
+
+  lines.forEach((item) => {
+    let currentLine = item.text;
+    let label: string | null = null;
     // Extract label
     if (currentLine.includes(":")) {
       const parts = currentLine.split(":");
-      const label = parts[0].trim();
-      labels[label] = pcCounter;
-      currentLine = parts[1].trim();
+      label = parts[0].trim();
+      currentLine = parts.slice(1).join(":").trim();
+      if (!/^[A-Za-z_]\w*$/.test(label))
+        report(item, label, "error", `Invalid label name '${label}'`);
+      else if (
+        labels.hasOwnProperty(label) ||
+        dataLabels.hasOwnProperty(label) ||
+        pendingData.includes(label)
+      )
+        report(item, label, "error", `Label '${label}' is already defined`);
+    }
+
+    if (currentLine.startsWith(".")) {
+      const [name, ...rest] = currentLine.split(/\s+/);
+      const directive = name.toUpperCase();
+      const args = rest
+        .join(" ")
+        .split(",")
+        .map((a) => a.trim())
+        .filter((a) => a.length > 0);
+
+      if (directive === ".DATA" || directive === ".TEXT") {
+        bindData();
+        inData = directive === ".DATA";
+        return;
+      }
+      if (label) pendingData.push(label);
+      emitData(item, name, args);
+      return;
+    }
+
+    if (inData) {
+      if (label) pendingData.push(label);
+      if (currentLine.length > 0)
+        report(
+          item,
+          currentLine,
+          "error",
+          "Instructions belong in the .text section"
+        );
+      return;
     }
 
+    if (label) labels[label] = pcCounter;
+
     if (currentLine.length > 0) {
-      cleanLines.push({ raw: currentLine, pc: pcCounter });
+      cleanLines.push({
+        raw: currentLine,
+        pc: pcCounter,
+        line: item.line,
+        source: item.source,
+      });
       pcCounter += 4; // Assume 4 byte instructions
     }
   });
+  bindData();
+
+  // Operand checks, reported against the source line
+  const checkRegister = (
+    at: { line: number; source: string },
+    reg: string,
+    regClass: "F" | "R"
+  ) => {
+    if (!/^[FR]\d+$/i.test(reg)) {
+      report(at, reg, "error", `'${reg}' is not a register`);
+      return;
+    }
+    if (reg[0].toUpperCase() !== regClass)
+      report(
+        at,
+        reg,
+        "warning",
+        `Expected ${
+          regClass === "F" ? "a floating point" : "an integer"
+        } register, got ${reg}`
+      );
+    // R0 is hardwired to zero and never part of the register file
+    if (
+      registerNames &&
+      reg.toUpperCase() !== "R0" &&
+      !registerNames.includes(reg.toUpperCase())
+    )
+      report(
+        at,
+        reg,
+        "warning",
+        `${reg} is not in the register file and reads as 0`
+      );
+  };
+
+  const checkImmediate = (
+    at: { line: number; source: string },
+    text: string
+  ): number => {
+    const value = resolveValue(text, dataLabels);
+    if (value === null) {
+      report(
+        at,
+        text,
+        "error",
+        /^[A-Za-z_]/.test(text)
+          ? `Undefined data label '${text}'`
+          : `Invalid immediate '${text}'`
+      );
+      return 0;
+    }
+    if (!Number.isInteger(value) || value < IMM_MIN || value > IMM_MAX)
+      report(
+        at,
+        text,
+        "error",
+        `Immediate ${value} is outside the 16-bit range ${IMM_MIN}..${IMM_MAX}`
+      );
+    return value;
+  };
+
+  const checkOperands = (item: (typeof cleanLines)[number]) => {
+    const [mnemonic] = item.raw.split(/\s+/);
+    const format = INSTRUCTION_FORMATS[mnemonic.toUpperCase()];
+    if (!format) {
+      report(item, mnemonic, "error", `Unknown instruction '${mnemonic}'`);
+      return;
+    }
+
+    const operands = item.raw
+      .slice(mnemonic.length)
+      .split(",")
+      .map((o) => o.trim())
+      .filter((o) => o.length > 0);
+    const expected = OPERAND_COUNTS[format.kind];
+    if (operands.length !== expected) {
+      report(
+        item,
+        mnemonic,
+        "error",
+        `${mnemonic.toUpperCase()} expects ${expected} operands, got ${operands.length}`
+      );
+      return;
+    }
+
+    switch (format.kind) {
+      case "MEM": {
+        checkRegister(item, operands[0], format.data);
+        const match = operands[1].match(/^(.*)\((.+)\)$/);
+        if (!match) {
+          report(
+            item,
+            operands[1],
+            "error",
+            `Expected offset(base), got '${operands[1]}'`
+          );
+          break;
+        }
+        if (match[1].trim()) checkImmediate(item, match[1].trim());
+        checkRegister(item, match[2].trim(), "R");
+        break;
+      }
+      case "RRR":
+        operands.forEach((o) => checkRegister(item, o, format.regs));
+        break;
+      case "RRI":
+        checkRegister(item, operands[0], "R");
+        checkRegister(item, operands[1], "R");
+        checkImmediate(item, operands[2]);
+        break;
+      case "BRANCH":
+      case "BRANCHZ": {
+        operands.slice(0, -1).forEach((o) => checkRegister(item, o, "R"));
+        const target = operands[operands.length - 1];
+        if (!labels.hasOwnProperty(target))
+          report(item, target, "error", `Undefined label '${target}'`);
+        break;
+      }
+    }
+  };
 
   // Second pass: Parse instructions
   cleanLines.forEach((item, index) => {
+    checkOperands(item);
+
     // Regex for: OP DEST, SRC1, SRC2 (Handle variations like 0(R1))
     // Example: L.D F0, 0(R1) -> Op:L.D, Dest:F0, Src1: R1, Src2/Imm: 0
     // Example: ADD F1, F2, F3
@@ -47,10 +407,11 @@ export const parseAssembly = (
 
     // Handle Load/Store format: OP REG, IMM(SRC) -> OP DEST, IMM, SRC
     if (src1.includes("(") && src1.includes(")")) {
-      const match = src1.match(/^(-?\d+)\((.+)\)$/);
+      const match = src1.match(/^(.*)\((.+)\)$/);
       if (match) {
         // Swap for internal representation consistency: OP Dest, BaseReg, Offset
-        imm = parseInt(match[1]);
+        // The offset may be a data label, e.g. L.D F0, ARR(R1)
+        imm = match[1] ? resolveValue(match[1], dataLabels) || 0 : 0;
         const baseReg = match[2];
         src2 = imm.toString(); // Store offset in src2 slot for parser consistency
         src1 = baseReg; // Store base reg in src1 slot
@@ -59,6 +420,8 @@ export const parseAssembly = (
       // Try to parse immediate if it exists
       if (!isNaN(parseInt(src2))) {
         imm = parseInt(src2);
+      } else if (resolveValue(src2, dataLabels) !== null) {
+        imm = resolveValue(src2, dataLabels)!; // Address of a data label
       }
       // Handle Branch labels
       if (labels.hasOwnProperty(src2)) {
@@ -70,21 +433,33 @@ export const parseAssembly = (
       }
     }
 
+    // The engines look registers up by exact name, so f2 is stored as F2
+    const operand = (text: string) =>
+      /^[FR]\d+$/i.test(text) && !labels.hasOwnProperty(text)
+        ? text.toUpperCase()
+        : text;
+
     instructions.push({
       id: index,
       raw: item.raw,
       op,
-      dest,
-      src1,
-      src2,
+      dest: operand(dest),
+      src1: operand(src1),
+      src2: operand(src2),
       immediate: imm,
       pcAddress: item.pc,
+      line: item.line,
       issueCycle: null,
+      readCycle: null,
       execStartCycle: null,
       execEndCycle: null,
       writeCycle: null,
+      commitCycle: null,
+      squashed: false,
+      exception: null,
     });
   });
 
-  return { instructions, labels };
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { instructions, labels, dataLabels, memory, diagnostics };
 };
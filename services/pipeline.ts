@@ -0,0 +1,120 @@
+// services/pipeline.ts
+import {
+  InstructionLine,
+  PipelineCell,
+  PipelineRow,
+  SimulationState,
+} from "../types";
+
+// ============================================================================
+// PIPELINE DIAGRAM
+// ============================================================================
+
+// Tags an RS is still waiting on (Qj/Qk)
+const pendingTags = (state: SimulationState, instId: number) => {
+  const rs = state.reservationStations.find(
+    (r) => r.busy && r.instId === instId
+  );
+  return rs ? [rs.qj, rs.qk].filter((t): t is string => !!t) : null;
+};
+
+// What `inst` was doing during cycle `cycle`, read from that cycle's snapshot
+const classifyCycle = (
+  inst: InstructionLine,
+  cycle: number,
+  history: SimulationState[]
+): PipelineCell | null => {
+  const state = history[cycle];
+  const retired = state.rob.length > 0 ? inst.commitCycle : inst.writeCycle;
+  if (inst.issueCycle === null || cycle < inst.issueCycle) return null;
+  if (retired !== null && cycle > retired) return null;
+
+  if (cycle === inst.commitCycle) return { stage: "COMMIT", reason: "Commit" };
+
+  // Stall reasons recorded by the engine
+  const stalls = state.stalls.filter((st) => st.instId === inst.id);
+  const onOperands = stalls.some(
+    (st) => st.kind === "RAW" || st.kind === "BASE_REGISTER"
+  );
+  if (stalls.length > 0)
+    return {
+      stage: onOperands ? "OPERANDS" : "STALL",
+      reason: stalls.map((st) => st.message).join("; "),
+    };
+
+  if (cycle === inst.readCycle)
+    return { stage: "READ", reason: "Reads its operands" };
+
+  const start = inst.execStartCycle;
+  const end = inst.execEndCycle;
+  if (start !== null && cycle >= start && (end === null || cycle <= end)) {
+    const mshr = state.mshrs.find((m) => m.instIds.includes(inst.id));
+    if (mshr)
+      return {
+        stage: "MISS",
+        reason: `Cache miss on block ${mshr.blockAddress} (${mshr.id}), data ready at cycle ${mshr.readyCycle}`,
+      };
+    const total = end !== null ? ` of ${end - start + 1}` : "";
+    return {
+      stage: "EXECUTE",
+      reason: `Executing, cycle ${cycle - start + 1}${total}`,
+    };
+  }
+  // After execute: stores and branches set writeCycle in their last execute
+  // cycle, without using the CDB
+  if (cycle === inst.writeCycle)
+    return {
+      stage: "WRITE",
+      reason:
+        state.scoreboard.length > 0
+          ? "Writes its result"
+          : "Writes its result on the CDB",
+    };
+  if (cycle === inst.issueCycle) return { stage: "ISSUE", reason: "Issue" };
+
+  if (start === null || cycle < start) {
+    // Operands that arrive on the CDB are usable from the next cycle
+    const before = pendingTags(history[cycle - 1], inst.id);
+    if (before && before.length > 0)
+      return {
+        stage: "OPERANDS",
+        reason: `Receives ${before.join(", ")} from the CDB`,
+      };
+    const rs = state.reservationStations.find((r) => r.instId === inst.id);
+    const rsBefore = history[cycle - 1].reservationStations.find(
+      (r) => r.instId === inst.id
+    );
+    if (rs?.addrReady && rsBefore && !rsBefore.addrReady)
+      return { stage: "STALL", reason: `Computes effective address ${rs.a}` };
+    return { stage: "STALL", reason: "Operands ready, waiting to start" };
+  }
+  if (inst.writeCycle === null || cycle < inst.writeCycle)
+    return { stage: "STALL", reason: "Done, waiting for the CDB" };
+  return { stage: "STALL", reason: "Waiting for older instructions to commit" };
+};
+
+// One row per dynamic instruction that has issued by the last snapshot, in
+// issue order. history[c] must be the state at the end of cycle c.
+export const buildPipelineDiagram = (
+  history: SimulationState[]
+): PipelineRow[] => {
+  const latest = history[history.length - 1];
+  if (!latest) return [];
+
+  return latest.instructions
+    .filter((i) => i.issueCycle !== null)
+    .sort((a, b) => a.issueCycle! - b.issueCycle! || a.id - b.id)
+    .map((inst) => {
+      const cells: (PipelineCell | null)[] = [null];
+      for (let c = 1; c <= latest.cycle; c++) {
+        // Squashed instructions drop out of the diagram when they are flushed
+        if (
+          inst.squashed &&
+          history[c].instructions.find((i) => i.id === inst.id)?.squashed
+        )
+          break;
+        cells.push(classifyCycle(inst, c, history));
+      }
+      return { inst, cells };
+    });
+};
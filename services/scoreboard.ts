@@ -0,0 +1,473 @@
+// services/scoreboard.ts
+// CDC 6600 scoreboarding on the same programs and configs as Tomasulo:
+// Issue, Read Operands, Execute and Write Result. There is no renaming, so
+// WAR and WAW hazards stall, and each instruction holds its functional unit
+// from issue until it writes its result. One instruction issues per cycle,
+// branches stall issue until they resolve, and memory is perfect (loads and
+// stores take their configured latency, the cache is not modelled).
+import {
+  ExceptionHandling,
+  FUType,
+  InstructionLine,
+  OpType,
+  Register,
+  ScoreboardUnit,
+  SimulationState,
+  SystemConfig,
+} from "../types";
+import { initializePredictor } from "./branchPredictor";
+import {
+  accessesOverlap,
+  getAccessWidth,
+  readMemory,
+  writeMemory,
+} from "./memory";
+import { checkAccess, checkDivide, isPreciseTrap } from "./exceptions";
+import {
+  emptyCounters,
+  logStalls,
+  rawStallMessage,
+  stallRecorder,
+} from "./stalls";
+import { fetchInstruction, getFUType, getOpType, getRSType } from "./tomasulo";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const UNIT_NAMES: Record<FUType, string> = {
+  INTEGER: "Integer",
+  MULT: "Mult",
+  ADD: "Add",
+  MEMORY: "Mem",
+};
+
+const emptyUnit = (unit: ScoreboardUnit): ScoreboardUnit => ({
+  ...unit,
+  busy: false,
+  op: null,
+  instId: null,
+  fi: null,
+  fj: null,
+  fk: null,
+  qj: null,
+  qk: null,
+  rj: false,
+  rk: false,
+  vj: null,
+  vk: null,
+  a: null,
+  timeLeft: 0,
+  result: null,
+});
+
+// Registers written (Fi) and read (Fj, Fk), with the same operand mapping
+// as Tomasulo. Names outside the register file (R0, immediates) are null.
+const getOperands = (
+  inst: InstructionLine,
+  registers: { [key: string]: Register }
+) => {
+  const reg = (name: string) => (registers[name] ? name : null);
+  switch (getOpType(inst.op)) {
+    case OpType.LOAD:
+      return { fi: reg(inst.dest), fj: reg(inst.src1), fk: null };
+    case OpType.STORE:
+      // S.D F0, 0(R1): the base is Fj, the value to store Fk
+      return { fi: null, fj: reg(inst.src1), fk: reg(inst.dest) };
+    case OpType.BRANCH:
+      // BNE R1, R2, LABEL: Dest=R1, Src1=R2
+      return { fi: null, fj: reg(inst.dest), fk: reg(inst.src1) };
+    default:
+      return {
+        fi: reg(inst.dest),
+        fj: reg(inst.src1),
+        fk: reg(inst.src2),
+      };
+  }
+};
+
+// ============================================================================
+// INITIALIZATION
+// ============================================================================
+
+export const initializeScoreboard = (
+  instructions: InstructionLine[],
+  config: SystemConfig,
+  initialRegs: { [key: string]: number },
+  initialMemory: { [address: number]: number } = {}
+): SimulationState => {
+  const units: ScoreboardUnit[] = [];
+  (Object.keys(UNIT_NAMES) as FUType[]).forEach((type) => {
+    for (let i = 0; i < config.functionalUnits[type].count; i++)
+      units.push(
+        emptyUnit({ id: `${UNIT_NAMES[type]}${i + 1}`, type } as ScoreboardUnit)
+      );
+  });
+
+  const registers: { [key: string]: Register } = {};
+  Object.keys(initialRegs).forEach((name) => {
+    registers[name] = { name, value: initialRegs[name], qi: null };
+  });
+
+  return {
+    cycle: 0,
+    pc: 0,
+    instructions,
+    reservationStations: [],
+    functionalUnits: [],
+    scoreboard: units,
+    registers,
+    memory: { ...initialMemory },
+    caches: [],
+    mshrs: [],
+    mshrMerges: 0,
+    mshrStalls: 0,
+    memoryWrites: [],
+    stalls: [],
+    counters: emptyCounters(),
+    rob: [],
+    robHead: 0,
+    robTail: 0,
+    physicalRegisters: [],
+    rat: {},
+    freeList: [],
+    cdb: [],
+    cdbRoundRobin: 0,
+    log: ["Simulation initialized."],
+    isFinished: false,
+    trap: null,
+    branchStall: false,
+    pendingBranches: [],
+    predictor: initializePredictor(config),
+  };
+};
+
+// ============================================================================
+// NEXT CYCLE LOGIC
+// ============================================================================
+
+export const nextScoreboardCycle = (
+  state: SimulationState,
+  config: SystemConfig,
+  labels: Record<string, number>
+): SimulationState => {
+  if (state.isFinished) return state;
+
+  const registers: { [key: string]: Register } = {};
+  Object.keys(state.registers).forEach((name) => {
+    registers[name] = { ...state.registers[name] };
+  });
+  const nextState: SimulationState = {
+    ...state,
+    cycle: state.cycle + 1,
+    log: [...state.log],
+    instructions: state.instructions.map((i) => ({ ...i })),
+    scoreboard: state.scoreboard.map((u) => ({ ...u })),
+    registers,
+    memory: { ...state.memory },
+    memoryWrites: [],
+    stalls: [],
+    counters: {
+      ...state.counters,
+      stallCycles: { ...state.counters.stallCycles },
+    },
+  };
+  const { scoreboard: units, memory, cycle } = nextState;
+
+  const instOf = (unit: ScoreboardUnit) =>
+    nextState.instructions.find((i) => i.id === unit.instId)!;
+
+  const stall = stallRecorder(nextState);
+
+  // Every check below reads the units as they were at the start of the
+  // cycle (state.scoreboard), so what one stage does is seen by the others
+  // only in the next cycle
+
+  // =========================================================================
+  // 1. WRITE RESULT
+  // =========================================================================
+  state.scoreboard.forEach((before, index) => {
+    if (!before.busy) return;
+    const inst = instOf(before);
+    if (inst.execEndCycle === null) return;
+
+    // WAR: an earlier instruction still has to read the old value
+    const reader = state.scoreboard.find(
+      (f) =>
+        f.busy &&
+        before.fi !== null &&
+        ((f.fj === before.fi && f.rj) || (f.fk === before.fi && f.rk))
+    );
+    if (reader) {
+      stall(
+        inst.id,
+        "WAR",
+        `WAR on ${before.fi}, ${reader.id} has not read it yet`,
+        { otherInstId: reader.instId! }
+      );
+      return;
+    }
+
+    // Loads and stores to the same address keep their program order
+    const opType = getOpType(inst.op);
+    if (opType === OpType.LOAD || opType === OpType.STORE) {
+      const earlier = state.scoreboard.find(
+        (f) =>
+          f.busy &&
+          f.type === "MEMORY" &&
+          f.instId! < inst.id &&
+          (opType === OpType.STORE || getOpType(f.op!) === OpType.STORE) &&
+          (f.a === null || accessesOverlap(f.a, f.op!, before.a!, inst.op))
+      );
+      if (earlier) {
+        const kind = getOpType(earlier.op!) === OpType.STORE ? "store" : "load";
+        stall(
+          inst.id,
+          "MEMORY_ORDER",
+          `Waits for earlier ${kind} #${earlier.instId}` +
+            (earlier.a !== null
+              ? ` at address ${earlier.a}`
+              : " (address not known yet)"),
+          { otherInstId: earlier.instId! }
+        );
+        return;
+      }
+    }
+
+    // A faulting access that was skipped yields 0 and writes nothing
+    let result = before.result ?? 0;
+    if (opType === OpType.LOAD && !inst.exception)
+      result = readMemory(memory, before.a!, inst.op);
+    if (opType === OpType.STORE && !inst.exception) {
+      writeMemory(memory, before.a!, inst.op, before.vk ?? 0);
+      nextState.memoryWrites.push({
+        address: before.a!,
+        bytes: getAccessWidth(inst.op).bytes,
+        instId: inst.id,
+      });
+    }
+    if (before.fi !== null && registers[before.fi].qi === before.id)
+      registers[before.fi] = {
+        ...registers[before.fi],
+        value: result,
+        qi: null,
+      };
+
+    // Units waiting on this one may read the value from the next cycle
+    units.forEach((f) => {
+      if (f.qj === before.id) {
+        f.qj = null;
+        f.rj = true;
+      }
+      if (f.qk === before.id) {
+        f.qk = null;
+        f.rk = true;
+      }
+    });
+
+    inst.writeCycle = cycle;
+    units[index] = emptyUnit(units[index]);
+  });
+
+  // =========================================================================
+  // 2. EXECUTE
+  // =========================================================================
+  state.scoreboard.forEach((before, index) => {
+    if (!before.busy || nextState.isFinished) return;
+    const inst = instOf(before);
+    if (inst.readCycle === null || inst.execEndCycle !== null) return;
+    const unit = units[index];
+    const opType = getOpType(inst.op);
+
+    if (inst.execStartCycle === null) {
+      inst.execStartCycle = cycle;
+      // Faults are taken at once: there is no ROB to make them precise
+      inst.exception =
+        opType === OpType.LOAD || opType === OpType.STORE
+          ? checkAccess(unit.a!, inst.op, config)
+          : opType === OpType.DIV
+          ? checkDivide(inst.op, unit.vk ?? 0)
+          : null;
+      if (inst.exception) {
+        const halt = config.exceptionHandling === ExceptionHandling.HALT;
+        nextState.log.push(
+          `Cycle ${cycle}: #${inst.id} raises an exception: ${
+            inst.exception
+          }, ${halt ? "simulation halted" : "skipped"}`
+        );
+        if (halt) {
+          nextState.trap = {
+            instId: inst.id,
+            message: inst.exception,
+            precise: isPreciseTrap(nextState.instructions, inst.id),
+          };
+          nextState.isFinished = true;
+          return;
+        }
+      }
+    }
+
+    unit.timeLeft--;
+    if (unit.timeLeft > 0) return;
+    inst.execEndCycle = cycle;
+
+    const v1 = unit.vj ?? 0;
+    const v2 = unit.vk ?? 0;
+    switch (opType) {
+      case OpType.ADD:
+      case OpType.INTEGER:
+        unit.result = inst.op.toUpperCase().includes("ADD") ? v1 + v2 : v1 - v2;
+        break;
+      case OpType.SUB:
+        unit.result = v1 - v2;
+        break;
+      case OpType.MULT:
+        unit.result = v1 * v2;
+        break;
+      case OpType.DIV:
+        unit.result = v2 !== 0 ? v1 / v2 : 0;
+        break;
+      case OpType.BRANCH: {
+        // Nothing to write: the branch resolves and frees its unit now
+        const taken = inst.op.toUpperCase().startsWith("BNE")
+          ? v1 !== v2
+          : v1 === v2;
+        const target = labels[inst.src2];
+        if (taken && target !== undefined) {
+          nextState.pc = target;
+          nextState.log.push(`Cycle ${cycle}: Branch taken to ${inst.src2}`);
+        }
+        nextState.branchStall = false;
+        inst.writeCycle = cycle;
+        units[index] = emptyUnit(unit);
+        break;
+      }
+    }
+  });
+
+  // =========================================================================
+  // 3. READ OPERANDS
+  // =========================================================================
+  state.scoreboard.forEach((before, index) => {
+    if (!before.busy) return;
+    const inst = instOf(before);
+    if (inst.readCycle !== null) return;
+
+    if (!before.rj || !before.rk) {
+      const operands: [string | null, string | null, boolean][] = [
+        [before.fj, before.qj, before.rj],
+        [before.fk, before.qk, before.rk],
+      ];
+      const waits = operands
+        .filter(([, , ready]) => !ready)
+        .map(([reg, producer]) => ({ reg, tag: producer! }));
+      stall(inst.id, "RAW", rawStallMessage(waits), { tag: waits[0].tag });
+      return;
+    }
+
+    const unit = units[index];
+    const opType = getOpType(inst.op);
+    const value = (reg: string | null) => (reg ? registers[reg].value : 0);
+    unit.vj = value(before.fj);
+    // The second source of an arithmetic op is an immediate if not a register
+    unit.vk =
+      before.fk === null && opType !== OpType.STORE && opType !== OpType.BRANCH
+        ? inst.immediate
+        : value(before.fk);
+    if (opType === OpType.LOAD || opType === OpType.STORE)
+      unit.a = unit.vj + inst.immediate;
+    // Read: the registers no longer block a later write (WAR)
+    unit.rj = false;
+    unit.rk = false;
+    unit.timeLeft = config.latencies[opType];
+    inst.readCycle = cycle;
+  });
+
+  // =========================================================================
+  // 4. ISSUE
+  // =========================================================================
+  // A new loop instance that cannot issue is not in the instruction list yet
+  let stalledIssue: InstructionLine | undefined;
+  const fetched = nextState.branchStall
+    ? null
+    : fetchInstruction(nextState.instructions, nextState.pc);
+
+  if (nextState.branchStall) {
+    const branch = nextState.instructions.find(
+      (i) =>
+        getOpType(i.op) === OpType.BRANCH &&
+        i.issueCycle !== null &&
+        i.execEndCycle === null
+    );
+    stall(null, "BRANCH", `Issue waits for branch #${branch?.id} to resolve`, {
+      otherInstId: branch?.id,
+    });
+  } else if (fetched) {
+    const { inst, isNew } = fetched;
+    const opType = getOpType(inst.op);
+    const type = getFUType(getRSType(opType));
+    const operands = getOperands(inst, registers);
+    // Units freed and registers written this cycle are available next cycle
+    const free = state.scoreboard.findIndex((u) => u.type === type && !u.busy);
+    const writer = operands.fi ? state.registers[operands.fi].qi : null;
+
+    if (free === -1) {
+      stalledIssue = inst;
+      stall(inst.id, "STRUCTURAL", `No free ${type} unit`);
+    } else if (writer) {
+      stalledIssue = inst;
+      stall(
+        inst.id,
+        "WAW",
+        `WAW on ${operands.fi}, ${writer} still has to write it`,
+        { tag: writer }
+      );
+    } else {
+      if (isNew) nextState.instructions.push(inst);
+      inst.issueCycle = cycle;
+      nextState.pc += 4;
+      if (opType === OpType.BRANCH) nextState.branchStall = true;
+
+      const qj = operands.fj ? registers[operands.fj].qi : null;
+      const qk = operands.fk ? registers[operands.fk].qi : null;
+      units[free] = {
+        ...emptyUnit(units[free]),
+        busy: true,
+        op: inst.op,
+        instId: inst.id,
+        ...operands,
+        qj,
+        qk,
+        rj: !qj,
+        rk: !qk,
+      };
+      if (operands.fi) registers[operands.fi].qi = units[free].id;
+    }
+  }
+
+  logStalls(state, nextState, stalledIssue);
+
+  // =========================================================================
+  // CHECK COMPLETION
+  // =========================================================================
+  const allWritten = nextState.instructions.every(
+    (i) => i.issueCycle === null || i.writeCycle !== null
+  );
+  const pcIsValid = nextState.instructions.some(
+    (i) => i.pcAddress === nextState.pc
+  );
+
+  if (nextState.isFinished) {
+    // Halted on a fault above
+  } else if (allWritten && !pcIsValid && !nextState.branchStall) {
+    nextState.isFinished = true;
+    nextState.log.push("All instructions completed.");
+  } else if (cycle >= config.maxCycles) {
+    nextState.isFinished = true;
+    nextState.log.push(
+      `Cycle limit of ${config.maxCycles} reached, simulation stopped.`
+    );
+  }
+
+  return nextState;
+};
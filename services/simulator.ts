@@ -0,0 +1,34 @@
+// services/simulator.ts
+// Runs whichever scheduling engine the config selects. Everything outside
+// the engines goes through here.
+import {
+  InstructionLine,
+  SimulationEngine,
+  SimulationState,
+  SystemConfig,
+} from "../types";
+import {
+  initializeState as initializeTomasulo,
+  nextCycle as nextTomasuloCycle,
+} from "./tomasulo";
+import { initializeScoreboard, nextScoreboardCycle } from "./scoreboard";
+
+export const initializeState = (
+  instructions: InstructionLine[],
+  config: SystemConfig,
+  initialRegs: { [key: string]: number },
+  initialMemory: { [address: number]: number } = {}
+): SimulationState =>
+  config.engine === SimulationEngine.SCOREBOARD
+    ? initializeScoreboard(instructions, config, initialRegs, initialMemory)
+    : initializeTomasulo(instructions, config, initialRegs, initialMemory);
+
+// The engine is fixed when the state is initialized, like ROB mode
+export const nextCycle = (
+  state: SimulationState,
+  config: SystemConfig,
+  labels: Record<string, number>
+): SimulationState =>
+  state.scoreboard.length > 0
+    ? nextScoreboardCycle(state, config, labels)
+    : nextTomasuloCycle(state, config, labels);
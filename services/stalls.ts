@@ -0,0 +1,68 @@
+// services/stalls.ts
+// Stall bookkeeping shared by both engines: recording why an instruction
+// made no progress this cycle, logging it and counting it.
+import {
+  InstructionLine,
+  RunCounters,
+  SimulationState,
+  StallReason,
+} from "../types";
+
+export const emptyCounters = (): RunCounters => ({
+  stallCycles: {
+    STRUCTURAL: 0,
+    RAW: 0,
+    BASE_REGISTER: 0,
+    MEMORY_ORDER: 0,
+    BRANCH: 0,
+    CDB: 0,
+    CACHE: 0,
+    WAR: 0,
+    WAW: 0,
+  },
+  cdbBusyCycles: 0,
+  rsBusyCycles: { ADD: 0, MULT: 0, LOAD: 0, STORE: 0, INTEGER: 0 },
+});
+
+// The `stall` helper an engine calls while it builds nextState
+export const stallRecorder =
+  (nextState: SimulationState) =>
+  (
+    instId: number | null,
+    kind: StallReason["kind"],
+    message: string,
+    extra: Pick<StallReason, "tag" | "otherInstId"> = {}
+  ) =>
+    nextState.stalls.push({ instId, kind, message, ...extra });
+
+// Logs a stall when it starts or its reason changes, and counts every one.
+// `stalledIssue` is an instruction that could not issue and so is not in
+// the instruction list yet.
+export const logStalls = (
+  state: SimulationState,
+  nextState: SimulationState,
+  stalledIssue?: InstructionLine
+) => {
+  nextState.stalls.forEach((st) => {
+    const same = state.stalls.some(
+      (prev) => prev.instId === st.instId && prev.message === st.message
+    );
+    if (same) return;
+    const inst =
+      nextState.instructions.find((i) => i.id === st.instId) || stalledIssue;
+    const who = st.instId !== null ? `#${st.instId} (${inst?.raw})` : "Issue";
+    nextState.log.push(
+      `Cycle ${nextState.cycle}: ${who} stalls: ${st.message}`
+    );
+  });
+  nextState.stalls.forEach((st) => nextState.counters.stallCycles[st.kind]++);
+};
+
+// One RAW stall however many operands are pending, e.g.
+// "RAW on F2, F4, waiting for M1, M2"
+export const rawStallMessage = (
+  waits: { reg: string | null | undefined; tag: string }[]
+) =>
+  `RAW on ${waits.map((w) => w.reg).join(", ")}, waiting for ${waits
+    .map((w) => w.tag)
+    .join(", ")}`;
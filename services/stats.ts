@@ -0,0 +1,103 @@
+// services/stats.ts
+import { BranchStats, SimulationState, SystemConfig } from "../types";
+import { getHierarchyStats } from "./cache";
+
+// ============================================================================
+// RUN SUMMARY
+// ============================================================================
+
+// An instruction counts once it has retired: committed in ROB mode,
+// written back otherwise. Squashed instructions never count.
+export const isRetired = (
+  state: SimulationState,
+  inst: SimulationState["instructions"][number]
+) =>
+  !inst.squashed &&
+  (state.rob.length > 0 ? inst.commitCycle !== null : inst.writeCycle !== null);
+
+// Outcomes of the retired branches. A branch was taken when the next
+// retired instruction is not the one after it (or, for the last one, when
+// there was code after it that never ran).
+const getBranchOutcomes = (state: SimulationState) => {
+  const retired = state.instructions
+    .filter((i) => isRetired(state, i))
+    .sort((a, b) => a.id - b.id);
+  let executed = 0;
+  let taken = 0;
+  retired.forEach((inst, i) => {
+    if (!/^B(NE|EQ)/i.test(inst.op)) return;
+    executed++;
+    const next = retired[i + 1];
+    const fallThrough = inst.pcAddress + 4;
+    if (
+      next
+        ? next.pcAddress !== fallThrough
+        : state.instructions.some((j) => j.pcAddress === fallThrough)
+    )
+      taken++;
+  });
+  return { executed, taken };
+};
+
+// Ran to the end of the program: not halted on an exception and not
+// stopped at the cycle limit
+export const hasCompleted = (state: SimulationState, config: SystemConfig) =>
+  state.isFinished && !state.trap && state.cycle < config.maxCycles;
+
+export const getRunSummary = (state: SimulationState) => {
+  const retired = state.instructions.filter((i) => isRetired(state, i)).length;
+  const branches = Object.values(state.predictor.stats) as BranchStats[];
+  const predictions = branches.reduce((sum, b) => sum + b.predictions, 0);
+  const correct = branches.reduce((sum, b) => sum + b.correct, 0);
+  const { counters } = state;
+
+  // Average fraction of each RS type that was busy
+  const rsUtilization: { [type: string]: number } = {};
+  Object.entries(counters.rsBusyCycles).forEach(([type, busy]) => {
+    const size = state.reservationStations.filter(
+      (r) => r.type === type
+    ).length;
+    rsUtilization[type] =
+      state.cycle > 0 && size > 0 ? busy / (state.cycle * size) : 0;
+  });
+
+  return {
+    cycles: state.cycle,
+    finished: state.isFinished,
+    instructions: retired,
+    squashed: state.instructions.filter((i) => i.squashed).length,
+    // Faults on a squashed path were never taken
+    exceptions: state.instructions.filter((i) => i.exception && !i.squashed)
+      .length,
+    ipc: state.cycle > 0 ? retired / state.cycle : 0,
+    cpi: retired > 0 ? state.cycle / retired : 0,
+    stallCycles: { ...counters.stallCycles },
+    // Average fraction of the buses that carried a result
+    cdbUtilization:
+      state.cycle > 0 && state.cdb.length > 0
+        ? counters.cdbBusyCycles / (state.cycle * state.cdb.length)
+        : 0,
+    rsUtilization,
+    caches: getHierarchyStats(state.caches),
+    mshrMerges: state.mshrMerges,
+    mshrStalls: state.mshrStalls,
+    branches: {
+      ...getBranchOutcomes(state),
+      predictions,
+      correct,
+      accuracy: predictions > 0 ? correct / predictions : 0,
+    },
+  };
+};
+
+// Busy stations of each type at every cycle, for the occupancy chart
+export const getOccupancySeries = (history: SimulationState[]) => {
+  const series: { [type: string]: number[] } = {};
+  history.forEach((state, cycle) => {
+    state.reservationStations.forEach((r) => {
+      if (!series[r.type]) series[r.type] = new Array(history.length).fill(0);
+      if (r.busy) series[r.type][cycle]++;
+    });
+  });
+  return series;
+};
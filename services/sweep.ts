@@ -0,0 +1,295 @@
+// services/sweep.ts
+// Design-space sweeps: runs one program headlessly for every combination of
+// one or two config parameters and collects cycles and IPC.
+import { InstructionLine, OpType, SystemConfig } from "../types";
+import { initializeState, nextCycle } from "./simulator";
+import { getRunSummary, hasCompleted } from "./stats";
+import { validateConfig } from "./config";
+
+// ============================================================================
+// PARAMETERS
+// ============================================================================
+
+export interface SweepParameter {
+  id: string;
+  label: string;
+  get: (config: SystemConfig) => number;
+  set: (config: SystemConfig, value: number) => SystemConfig;
+}
+
+const RS_TYPES = ["ADD", "MULT", "LOAD", "STORE", "INTEGER"] as const;
+
+// Every numeric parameter of `config`; cache levels are taken from it
+export const getSweepParameters = (config: SystemConfig): SweepParameter[] => {
+  const params: SweepParameter[] = [];
+
+  RS_TYPES.forEach((type) =>
+    params.push({
+      id: `rsSizes.${type}`,
+      label: `${type} stations`,
+      get: (c) => c.rsSizes[type],
+      set: (c, v) => ({ ...c, rsSizes: { ...c.rsSizes, [type]: v } }),
+    })
+  );
+  (Object.keys(config.latencies) as OpType[]).forEach((op) =>
+    params.push({
+      id: `latencies.${op}`,
+      label: `${op} latency`,
+      get: (c) => c.latencies[op],
+      set: (c, v) => ({ ...c, latencies: { ...c.latencies, [op]: v } }),
+    })
+  );
+  (["ADD", "MULT", "INTEGER", "MEMORY"] as const).forEach((type) =>
+    params.push({
+      id: `functionalUnits.${type}.count`,
+      label: `${type} units`,
+      get: (c) => c.functionalUnits[type].count,
+      set: (c, v) => ({
+        ...c,
+        functionalUnits: {
+          ...c.functionalUnits,
+          [type]: { ...c.functionalUnits[type], count: v },
+        },
+      }),
+    })
+  );
+
+  params.push({
+    id: "cache.memoryLatency",
+    label: "Memory latency",
+    get: (c) => c.cache.memoryLatency,
+    set: (c, v) => ({ ...c, cache: { ...c.cache, memoryLatency: v } }),
+  });
+  params.push({
+    id: "cache.mshrs",
+    label: "MSHRs",
+    get: (c) => c.cache.mshrs,
+    set: (c, v) => ({ ...c, cache: { ...c.cache, mshrs: v } }),
+  });
+  config.cache.levels.forEach((level, i) => {
+    const fields = [
+      ["cacheSize", "size (bytes)"],
+      ["blockSize", "block size"],
+      ["associativity", "associativity"],
+      ["hitLatency", "hit latency"],
+    ] as const;
+    fields.forEach(([field, name]) =>
+      params.push({
+        id: `cache.levels.${i}.${field}`,
+        label: `${level.name} ${name}`,
+        get: (c) => c.cache.levels[i]?.[field] ?? 0,
+        set: (c, v) => ({
+          ...c,
+          cache: {
+            ...c.cache,
+            levels: c.cache.levels.map((l, j) =>
+              j === i ? { ...l, [field]: v } : l
+            ),
+          },
+        }),
+      })
+    );
+  });
+
+  params.push({
+    id: "issueWidth",
+    label: "Issue width",
+    get: (c) => c.issueWidth,
+    set: (c, v) => ({ ...c, issueWidth: v }),
+  });
+  params.push({
+    id: "cdb.count",
+    label: "CDBs",
+    get: (c) => c.cdb.count,
+    set: (c, v) => ({ ...c, cdb: { ...c.cdb, count: v } }),
+  });
+  params.push({
+    id: "rob.entries",
+    label: "ROB entries",
+    get: (c) => c.rob.entries,
+    set: (c, v) => ({ ...c, rob: { ...c.rob, entries: v } }),
+  });
+  params.push({
+    id: "physicalRegisters.count",
+    label: "Physical registers",
+    get: (c) => c.physicalRegisters.count,
+    set: (c, v) => ({
+      ...c,
+      physicalRegisters: { ...c.physicalRegisters, count: v },
+    }),
+  });
+  params.push({
+    id: "branchPredictor.tableSize",
+    label: "Predictor table size",
+    get: (c) => c.branchPredictor.tableSize,
+    set: (c, v) => ({
+      ...c,
+      branchPredictor: { ...c.branchPredictor, tableSize: v },
+    }),
+  });
+  return params;
+};
+
+// ============================================================================
+// VALUE RANGES
+// ============================================================================
+
+const MAX_VALUES = 64;
+
+// Comma separated items, each "n", "a-b", "a-b:step" or "a-b*factor",
+// e.g. "1-4", "2,4,8" or "16-256*2"
+export const parseSweepValues = (
+  text: string
+): { values: number[]; error: string | null } => {
+  const values: number[] = [];
+  const items = text
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  if (items.length === 0) return { values, error: "No values given" };
+
+  for (const item of items) {
+    const m = item.match(/^(\d+)(?:\s*-\s*(\d+)(?:\s*([:*])\s*(\d+))?)?$/);
+    if (!m) return { values, error: `Cannot read "${item}"` };
+    const from = parseInt(m[1]);
+    const to = m[2] !== undefined ? parseInt(m[2]) : from;
+    const step = m[4] !== undefined ? parseInt(m[4]) : 1;
+    const geometric = m[3] === "*";
+    if (to < from) return { values, error: `Empty range "${item}"` };
+    if (step < 1 || (geometric && step < 2))
+      return { values, error: `Bad step in "${item}"` };
+    if (geometric && from === 0)
+      return { values, error: `A "*" range cannot start at 0` };
+
+    for (let v = from; v <= to; v = geometric ? v * step : v + step) {
+      if (!values.includes(v)) values.push(v);
+      if (values.length > MAX_VALUES)
+        return { values, error: `More than ${MAX_VALUES} values` };
+    }
+  }
+  return { values: values.sort((a, b) => a - b), error: null };
+};
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+export interface SweepProgram {
+  instructions: InstructionLine[];
+  labels: Record<string, number>;
+  registers: { [key: string]: number };
+  memory: { [address: number]: number };
+}
+
+export interface SweepPoint {
+  x: number;
+  y: number | null; // null for a one-parameter sweep
+  cycles: number;
+  instructions: number;
+  ipc: number;
+  finished: boolean; // False if the run hit the cycle limit or faulted
+  error: string | null;
+}
+
+// Runs the program to completion under one config
+export const runToCompletion = (
+  program: SweepProgram,
+  config: SystemConfig
+) => {
+  let state = initializeState(
+    program.instructions,
+    config,
+    program.registers,
+    program.memory
+  );
+  while (!state.isFinished) state = nextCycle(state, config, program.labels);
+  return state;
+};
+
+// Runs one grid point: the base config with x (and y) applied
+export const runSweepPoint = (
+  program: SweepProgram,
+  config: SystemConfig,
+  xParam: SweepParameter,
+  x: number,
+  yParam?: SweepParameter,
+  y: number | null = null
+): SweepPoint => {
+  let cfg = xParam.set(config, x);
+  if (yParam && y !== null) cfg = yParam.set(cfg, y);
+  const invalid = validateConfig(cfg)[0];
+  if (invalid)
+    return {
+      x,
+      y,
+      cycles: 0,
+      instructions: 0,
+      ipc: 0,
+      finished: false,
+      error: `${invalid.field}: ${invalid.message}`,
+    };
+  try {
+    const state = runToCompletion(program, cfg);
+    const summary = getRunSummary(state);
+    const completed = hasCompleted(state, cfg);
+    return {
+      x,
+      y,
+      cycles: summary.cycles,
+      instructions: summary.instructions,
+      ipc: summary.ipc,
+      finished: completed,
+      // The last log line says why the run stopped
+      error: completed ? null : state.log[state.log.length - 1],
+    };
+  } catch (e) {
+    return {
+      x,
+      y,
+      cycles: 0,
+      instructions: 0,
+      ipc: 0,
+      finished: false,
+      error: (e as Error).message,
+    };
+  }
+};
+
+// Every (x, y) combination, x varying fastest
+export const sweepGrid = (xValues: number[], yValues: number[] | null) =>
+  (yValues ?? [null]).flatMap((y) => xValues.map((x) => ({ x, y })));
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const csvField = (value: string | number | boolean | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const sweepToCSV = (
+  points: SweepPoint[],
+  xParam: SweepParameter,
+  yParam?: SweepParameter
+) => {
+  const header = [
+    xParam.label,
+    ...(yParam ? [yParam.label] : []),
+    "cycles",
+    "instructions",
+    "ipc",
+    "finished",
+    "error",
+  ];
+  const rows = points.map((p) => [
+    p.x,
+    ...(yParam ? [p.y] : []),
+    p.cycles,
+    p.instructions,
+    p.ipc.toFixed(4),
+    p.finished,
+    p.error,
+  ]);
+  return [header, ...rows].map((r) => r.map(csvField).join(",")).join("\n");
+};
@@ -6,14 +6,50 @@ import {
   ReservationStation,
   InstructionLine,
   Register,
-  CacheBlock,
+  ROBEntry,
+  InstState,
+  BranchPredictorType,
+  LoadStorePolicy,
+  MSHREntry,
+  CDBArbitration,
+  ExceptionHandling,
+  FunctionalUnit,
+  FUType,
+  PhysicalRegister,
 } from "../types";
+import {
+  initializePredictor,
+  predictBranch,
+  updatePredictor,
+} from "./branchPredictor";
+import {
+  accessHierarchy,
+  createHierarchy,
+  getBlockAddresses,
+  nextMSHRId,
+  probeL1,
+  retireMSHRs,
+} from "./cache";
+import {
+  accessesOverlap,
+  forwardValue,
+  getAccessWidth,
+  readMemory,
+  writeMemory,
+} from "./memory";
+import { checkAccess, checkDivide, isPreciseTrap } from "./exceptions";
+import {
+  emptyCounters,
+  logStalls,
+  rawStallMessage,
+  stallRecorder,
+} from "./stalls";
 
 // ============================================================================
 // HELPERS
 // ============================================================================
 
-const getOpType = (op: string): OpType => {
+export const getOpType = (op: string): OpType => {
   op = op.toUpperCase();
   if (["L.D", "LW", "LD", "L.S"].includes(op)) return OpType.LOAD;
   if (["S.D", "SW", "SD", "S.S"].includes(op)) return OpType.STORE;
@@ -40,7 +76,7 @@ const getOpType = (op: string): OpType => {
   return OpType.INTEGER; // Default
 };
 
-const getRSType = (
+export const getRSType = (
   opType: OpType
 ): "ADD" | "MULT" | "LOAD" | "STORE" | "INTEGER" => {
   switch (opType) {
@@ -62,48 +98,167 @@ const getRSType = (
   }
 };
 
-const accessCache = (
-  addr: number,
-  config: SystemConfig,
-  cache: CacheBlock[],
-  cycle: number
-): { hit: boolean; penalty: number; newCache: CacheBlock[] } => {
-  if (!config.cache.enabled) return { hit: true, penalty: 0, newCache: cache };
-
-  const blockIndex = Math.floor(addr / config.cache.blockSize);
-  const tag = blockIndex;
-  const maxBlocks = config.cache.cacheSize / config.cache.blockSize;
-  const existingBlockIdx = cache.findIndex((b) => b.tag === tag);
-
-  let newCache = [...cache];
-  let hit = false;
-  let penalty = 0;
-
-  if (existingBlockIdx !== -1) {
-    hit = true;
-    newCache[existingBlockIdx] = {
-      ...newCache[existingBlockIdx],
-      lastAccess: cycle,
-    };
-  } else {
-    hit = false;
-    penalty = config.cache.missPenalty;
-    const newBlock: CacheBlock = {
-      tag,
-      valid: true,
-      data: [],
-      lastAccess: cycle,
-    };
+const FU_PREFIX: Record<FUType, string> = {
+  ADD: "Add",
+  MULT: "Mul",
+  INTEGER: "ALU",
+  MEMORY: "Mem",
+};
 
-    if (newCache.length < maxBlocks) {
-      newCache.push(newBlock);
-    } else {
-      newCache.sort((a, b) => a.lastAccess - b.lastAccess);
-      newCache[0] = newBlock;
+// The kind of functional unit a station executes on
+export const getFUType = (rsType: ReservationStation["type"]): FUType =>
+  rsType === "LOAD" || rsType === "STORE" ? "MEMORY" : rsType;
+
+// Fixed-priority CDB arbitration order (stores never use the CDB)
+const CDB_PRIORITY: ReservationStation["type"][] = [
+  "ADD",
+  "MULT",
+  "LOAD",
+  "INTEGER",
+  "STORE",
+];
+
+const setROBState = (rob: ROBEntry[], tag: string | null, s: InstState) => {
+  const robIndex = rob.findIndex((e) => e.id === tag);
+  if (robIndex !== -1) rob[robIndex] = { ...rob[robIndex], state: s };
+};
+
+const cloneRegisters = (registers: { [key: string]: Register }) => {
+  const copy: { [key: string]: Register } = {};
+  Object.keys(registers).forEach((name) => {
+    copy[name] = { ...registers[name] };
+  });
+  return copy;
+};
+
+// The instruction to issue at `pc`: a pending one, or a new dynamic instance
+// once a loop comes around again. New instances are only added to the
+// instruction list when they actually issue.
+export const fetchInstruction = (
+  instructions: InstructionLine[],
+  pc: number
+): { inst: InstructionLine; isNew: boolean } | null => {
+  // Instruction ids must grow in issue order, so a pending instance that
+  // lies behind something already issued (skipped by a branch) is not reused
+  const maxIssuedId = instructions.reduce(
+    (max, i) => (i.issueCycle !== null ? Math.max(max, i.id) : max),
+    -1
+  );
+  const pending = instructions.find(
+    (i) => i.pcAddress === pc && i.issueCycle === null && i.id > maxIssuedId
+  );
+  if (pending) return { inst: pending, isNew: false };
+
+  const template = instructions.find((i) => i.pcAddress === pc);
+  if (!template) return null;
+  const maxId = instructions.reduce((max, i) => Math.max(max, i.id), 0);
+  return {
+    inst: {
+      ...template,
+      id: maxId + 1,
+      issueCycle: null,
+      readCycle: null,
+      execStartCycle: null,
+      execEndCycle: null,
+      writeCycle: null,
+      commitCycle: null,
+      squashed: false,
+      exception: null,
+    },
+    isNew: true,
+  };
+};
+
+const emptyRS = (rs: ReservationStation): ReservationStation => ({
+  ...rs,
+  busy: false,
+  op: null,
+  vj: null,
+  vk: null,
+  qj: null,
+  qk: null,
+  a: null,
+  addrReady: false,
+  instId: null,
+  timeLeft: 0,
+  result: null,
+  dest: null,
+});
+
+const emptyROBEntry = (e: ROBEntry): ROBEntry => ({
+  ...e,
+  busy: false,
+  instId: null,
+  type: null,
+  state: InstState.PENDING,
+  dest: null,
+  value: null,
+  address: null,
+  ready: false,
+  physical: null,
+  previous: null,
+});
+
+// Discards everything issued after the branch `branchId` (mispredict recovery)
+const squashYounger = (state: SimulationState, branchId: number) => {
+  const { reservationStations, rob, registers } = state;
+
+  reservationStations.forEach((rs, idx) => {
+    if (rs.busy && rs.instId !== null && rs.instId > branchId)
+      reservationStations[idx] = emptyRS(rs);
+  });
+
+  state.instructions.forEach((inst) => {
+    if (inst.id > branchId && inst.issueCycle !== null && !inst.squashed)
+      inst.squashed = true;
+  });
+
+  // Squashed operations free their functional units at once
+  state.functionalUnits = state.functionalUnits.map((u) => ({
+    ...u,
+    ops: u.ops.filter((op) => op.instId <= branchId),
+  }));
+
+  const branch = state.pendingBranches.find((b) => b.instId === branchId);
+  state.pendingBranches = state.pendingBranches.filter(
+    (b) => b.instId < branchId
+  );
+
+  if (rob.length > 0) {
+    // Younger entries sit between the branch entry and the tail
+    const branchIdx = rob.findIndex(
+      (e) => e.busy && e.instId === branchId
+    );
+    // Renaming: undo their mappings, youngest first, and free their
+    // physical registers
+    for (let n = rob.length - 1; n >= 0; n--) {
+      const e = rob[(state.robHead + n) % rob.length];
+      if (e.busy && e.instId !== null && e.instId > branchId && e.physical) {
+        state.rat[e.dest!] = e.previous!;
+        state.freeList.push(e.physical);
+      }
+    }
+    rob.forEach((e, idx) => {
+      if (e.busy && e.instId !== null && e.instId > branchId)
+        rob[idx] = emptyROBEntry(e);
+    });
+    if (branchIdx !== -1) state.robTail = (branchIdx + 1) % rob.length;
+
+    // Rebuild register status from the surviving entries, oldest to youngest
+    // (with renaming qi is unused, the RAT was restored above)
+    if (state.physicalRegisters.length === 0) {
+      Object.values(registers).forEach((reg) => (reg.qi = null));
+      for (let n = 0; n < rob.length; n++) {
+        const e = rob[(state.robHead + n) % rob.length];
+        if (e.busy && e.dest && registers[e.dest]) registers[e.dest].qi = e.id;
+      }
     }
+  } else if (branch && branch.checkpoint) {
+    Object.keys(registers).forEach((name) => {
+      if (branch.checkpoint![name])
+        registers[name] = { ...branch.checkpoint![name] };
+    });
   }
-
-  return { hit, penalty, newCache };
 };
 
 // ============================================================================
@@ -113,7 +268,8 @@ const accessCache = (
 export const initializeState = (
   instructions: InstructionLine[],
   config: SystemConfig,
-  initialRegs: { [key: string]: number }
+  initialRegs: { [key: string]: number },
+  initialMemory: { [address: number]: number } = {}
 ): SimulationState => {
   const rs: ReservationStation[] = [];
 
@@ -142,30 +298,100 @@ export const initializeState = (
         qj: null,
         qk: null,
         a: null,
+        addrReady: false,
         instId: null,
         timeLeft: 0,
         result: null,
+        dest: null,
       });
     }
   });
 
+  const functionalUnits: FunctionalUnit[] = [];
+  (Object.keys(FU_PREFIX) as FUType[]).forEach((type) => {
+    const { count, pipelined } = config.functionalUnits[type];
+    for (let i = 0; i < count; i++)
+      functionalUnits.push({
+        id: `${FU_PREFIX[type]}${i + 1}`,
+        type,
+        pipelined,
+        ops: [],
+      });
+  });
+
+  // Initialize ROB (empty when running the textbook, non-speculative version)
+  const rob: ROBEntry[] = [];
+  if (config.rob.enabled) {
+    for (let i = 0; i < config.rob.entries; i++) {
+      rob.push({
+        id: `ROB${i + 1}`,
+        busy: false,
+        instId: null,
+        type: null,
+        state: InstState.PENDING,
+        dest: null,
+        value: null,
+        address: null,
+        ready: false,
+        physical: null,
+        previous: null,
+      });
+    }
+  }
+
   const registers: { [key: string]: Register } = {};
   Object.keys(initialRegs).forEach((name) => {
     registers[name] = { name, value: initialRegs[name], qi: null };
   });
 
+  // Renaming: each architectural register starts out mapped to its own
+  // physical register, the rest are free
+  const physicalRegisters: PhysicalRegister[] = [];
+  const rat: { [reg: string]: string } = {};
+  if (config.rob.enabled && config.physicalRegisters.enabled) {
+    const names = Object.keys(registers);
+    const count = Math.max(config.physicalRegisters.count, names.length);
+    for (let i = 0; i < count; i++)
+      physicalRegisters.push({
+        name: `P${i + 1}`,
+        value: i < names.length ? registers[names[i]].value : 0,
+        ready: true,
+      });
+    names.forEach((name, i) => (rat[name] = physicalRegisters[i].name));
+  }
+
   return {
     cycle: 0,
     pc: 0,
     instructions,
     reservationStations: rs,
+    functionalUnits,
+    scoreboard: [],
     registers,
-    memory: {},
-    cache: [],
-    cdb: null,
+    memory: { ...initialMemory },
+    caches: createHierarchy(config),
+    mshrs: [],
+    mshrMerges: 0,
+    mshrStalls: 0,
+    memoryWrites: [],
+    stalls: [],
+    counters: emptyCounters(),
+    rob,
+    robHead: 0,
+    robTail: 0,
+    physicalRegisters,
+    rat,
+    freeList: physicalRegisters
+      .slice(Object.keys(rat).length)
+      .map((p) => p.name),
+    cdb: new Array(config.cdb.count).fill(null),
+    cdbRoundRobin: 0,
     log: ["Simulation initialized."],
     isFinished: false,
+    trap: null,
     branchStall: false,
+    pendingBranches: [],
+    predictor: initializePredictor(config),
   };
 };
 
@@ -180,138 +406,757 @@ export const nextCycle = (
 ): SimulationState => {
   if (state.isFinished) return state;
 
-  const nextState = {
+  // Copy everything the stages below mutate, so that earlier states stay
+  // untouched and can be kept as snapshots (time travel)
+  const nextState: SimulationState = {
     ...state,
     cycle: state.cycle + 1,
-    cdb: null,
+    cdb: state.cdb.map(() => null),
     log: [...state.log],
-    instructions: [...state.instructions], // Shallow copy for appending loop instrs
+    instructions: state.instructions.map((i) => ({ ...i })),
+    reservationStations: state.reservationStations.map((rs) => ({ ...rs })),
+    // Operations that finished last cycle leave their unit
+    functionalUnits: state.functionalUnits.map((u) => ({
+      ...u,
+      ops: u.ops.filter((op) => op.endCycle > state.cycle),
+    })),
+    registers: cloneRegisters(state.registers),
+    memory: { ...state.memory },
+    rob: state.rob.map((e) => ({ ...e })),
+    physicalRegisters: state.physicalRegisters.map((p) => ({ ...p })),
+    rat: { ...state.rat },
+    freeList: [...state.freeList],
+    pendingBranches: state.pendingBranches.map((b) => ({
+      ...b,
+      checkpoint: b.checkpoint ? cloneRegisters(b.checkpoint) : null,
+    })),
+    mshrs: retireMSHRs(state.mshrs, state.cycle + 1),
+    memoryWrites: [],
+    stalls: [],
+    counters: {
+      ...state.counters,
+      stallCycles: { ...state.counters.stallCycles },
+      rsBusyCycles: { ...state.counters.rsBusyCycles },
+    },
+  };
+
+  const { reservationStations, registers, memory, rob } = nextState;
+
+  // ROB mode is fixed when the state is initialized
+  const useROB = rob.length > 0;
+  const usePRF = nextState.physicalRegisters.length > 0;
+  const physicalRegister = (name: string) =>
+    nextState.physicalRegisters.find((p) => p.name === name)!;
+
+  const opOf = (instId: number | null) =>
+    nextState.instructions.find((i) => i.id === instId)?.op || "";
+
+  // Issued past a branch that has not resolved yet
+  const isSpeculative = (instId: number | null) =>
+    instId !== null &&
+    nextState.pendingBranches.some((b) => b.instId < instId);
+
+  // Records why an instruction made no progress this cycle
+  const stall = stallRecorder(nextState);
+
+  // Speculative work held back by the oldest unresolved earlier branch
+  const stallOnBranch = (instId: number, what: string) => {
+    const branch = nextState.pendingBranches.find((b) => b.instId < instId);
+    stall(
+      instId,
+      "BRANCH",
+      `${what} until branch #${branch?.instId} resolves`,
+      { otherInstId: branch?.instId }
+    );
+  };
+
+  // Adds instId to the MSHRs already fetching its blocks; returns the
+  // cycles until the last of them arrives
+  const mergeMisses = (mshrs: MSHREntry[], instId: number) => {
+    if (mshrs.length === 0) return 0;
+    nextState.mshrs = nextState.mshrs.map((m) =>
+      mshrs.some((x) => x.id === m.id)
+        ? { ...m, instIds: [...m.instIds, instId] }
+        : m
+    );
+    nextState.mshrMerges++;
+    return Math.max(0, ...mshrs.map((m) => m.readyCycle - nextState.cycle));
+  };
+
+  // ---------------------------------------------------------------------
+  // Load/store queue: stores older than instId, youngest first.
+  // A null address means the store has not computed it yet.
+  // ---------------------------------------------------------------------
+  const olderStores = (instId: number) => {
+    const stores: {
+      instId: number;
+      op: string;
+      address: number | null;
+      value: number | null;
+    }[] = [];
+    // A faulting store never writes memory: loads neither wait for it nor
+    // take its data
+    const faults = (address: number | null, storeId: number) =>
+      address !== null && !!checkAccess(address, opOf(storeId), config);
+    reservationStations.forEach((r) => {
+      if (
+        r.busy &&
+        r.type === "STORE" &&
+        r.instId! < instId &&
+        !(r.addrReady && faults(r.a, r.instId!))
+      )
+        stores.push({
+          instId: r.instId!,
+          op: opOf(r.instId),
+          address: r.addrReady ? r.a : null,
+          value: r.qk === null ? r.vk : null,
+        });
+    });
+    // ROB mode: executed stores wait in the ROB until commit
+    rob.forEach((e) => {
+      if (
+        e.busy &&
+        e.type === "STORE" &&
+        e.ready &&
+        e.instId! < instId &&
+        !faults(e.address, e.instId!)
+      )
+        stores.push({
+          instId: e.instId!,
+          op: opOf(e.instId),
+          address: e.address,
+          value: e.value,
+        });
+    });
+    return stores.sort((x, y) => y.instId - x.instId);
+  };
+
+  // Decides whether a load with a known address may access memory now.
+  // Returns the forwarded value when a matching store supplies the data,
+  // or the store it has to wait for.
+  const checkLoad = (
+    rs: ReservationStation
+  ): {
+    go: boolean;
+    forwarded: number | null;
+    waitFor: { instId: number; why: string } | null;
+  } => {
+    const stores = olderStores(rs.instId!);
+    const policy = config.loadStorePolicy;
+
+    const unknown = stores.find((st) => st.address === null);
+    if (policy !== LoadStorePolicy.SPECULATIVE && unknown)
+      return {
+        go: false,
+        forwarded: null,
+        waitFor: {
+          instId: unknown.instId,
+          why: `address of store #${unknown.instId} not known yet`,
+        },
+      };
+
+    // The youngest older store touching any of the loaded bytes
+    const loadOp = opOf(rs.instId);
+    const match = stores.find(
+      (st) =>
+        st.address !== null &&
+        accessesOverlap(st.address, st.op, rs.a || 0, loadOp)
+    );
+    if (!match) return { go: true, forwarded: null, waitFor: null };
+    const waitFor = {
+      instId: match.instId,
+      why: `overlaps store #${match.instId} at address ${match.address}`,
+    };
+    if (policy === LoadStorePolicy.CONSERVATIVE || match.value === null)
+      return { go: false, forwarded: null, waitFor };
+    // A load that only partly overlaps the store waits for it to reach memory
+    const forwarded = forwardValue(
+      match.address!,
+      match.op,
+      match.value,
+      rs.a || 0,
+      loadOp
+    );
+    return {
+      go: forwarded !== null,
+      forwarded,
+      waitFor: forwarded === null ? waitFor : null,
+    };
   };
 
-  const { reservationStations, registers, memory } = nextState;
+  // Without a ROB, stores write memory when they execute, so they must not
+  // overtake an earlier load or store to the same (or an unknown) address.
+  // Returns the access it has to wait for, if any.
+  const findStoreConflict = (rs: ReservationStation) =>
+    useROB
+      ? undefined
+      : reservationStations.find(
+          (r) =>
+            r.busy &&
+            r.instId! < rs.instId! &&
+            (r.type === "STORE" ||
+              (r.type === "LOAD" &&
+                nextState.instructions.find((i) => i.id === r.instId)
+                  ?.execEndCycle === null)) &&
+            (!r.addrReady ||
+              accessesOverlap(
+                r.a || 0,
+                opOf(r.instId),
+                rs.a || 0,
+                opOf(rs.instId)
+              ))
+        );
+
+  // Speculative policy: a store that just resolved its address replays the
+  // younger loads that already read the same address
+  const replayLoads = (store: ReservationStation) => {
+    reservationStations.forEach((r) => {
+      if (
+        r.busy &&
+        r.type === "LOAD" &&
+        r.addrReady &&
+        accessesOverlap(r.a || 0, opOf(r.instId), store.a || 0, opOf(store.instId)) &&
+        r.instId! > store.instId!
+      ) {
+        const inst = nextState.instructions.find((i) => i.id === r.instId);
+        if (!inst || inst.execStartCycle === null) return;
+        inst.execStartCycle = null;
+        inst.execEndCycle = null;
+        inst.exception = null;
+        r.timeLeft = 0;
+        r.result = null;
+        r.vk = null;
+        nextState.functionalUnits.forEach((u) => {
+          u.ops = u.ops.filter((op) => op.instId !== r.instId);
+        });
+        nextState.log.push(
+          `Cycle ${nextState.cycle}: ${r.id} conflicts with ${store.id} at address ${store.a}, replaying load`
+        );
+      }
+    });
+  };
 
   // =========================================================================
-  // 1. WRITE RESULT (Broadcast on CDB)
+  // 0. COMMIT (ROB mode only, in order from the head, up to issueWidth)
   // =========================================================================
-  let cdbProducer: ReservationStation | null = null;
+  for (let n = 0; useROB && n < config.issueWidth; n++) {
+    const head = rob[nextState.robHead];
+    const headInst = head.busy
+      ? nextState.instructions.find((i) => i.id === head.instId)
+      : undefined;
+
+    // An entry can commit the cycle after its result was written
+    if (
+      !head.ready ||
+      !headInst ||
+      headInst.writeCycle === null ||
+      headInst.writeCycle >= nextState.cycle
+    )
+      break;
+
+    // Exceptions are taken here, in program order: everything older has
+    // committed and nothing younger has, so the state is precise
+    if (headInst.exception) {
+      if (config.exceptionHandling === ExceptionHandling.HALT) {
+        nextState.trap = {
+          instId: headInst.id,
+          message: headInst.exception,
+          precise: true,
+        };
+        squashYounger(nextState, headInst.id);
+        // The faulting entry never commits either: undo its mapping and
+        // tag so no register is left waiting on it, and empty the ROB
+        if (head.physical) {
+          nextState.rat[head.dest!] = head.previous!;
+          nextState.freeList.push(head.physical);
+        }
+        if (head.dest && registers[head.dest]?.qi === head.id)
+          registers[head.dest].qi = null;
+        rob[nextState.robHead] = emptyROBEntry(head);
+        nextState.robTail = nextState.robHead;
+        nextState.log.push(
+          `Cycle ${nextState.cycle}: ${head.id} raises an exception: ${headInst.exception}, flushing the ROB and halting`
+        );
+        nextState.isFinished = true;
+        break;
+      }
+      nextState.log.push(
+        `Cycle ${nextState.cycle}: ${head.id} raises an exception: ${headInst.exception}, skipped`
+      );
+    }
 
+    if (head.type === "STORE" && !headInst.exception) {
+      writeMemory(memory, head.address || 0, headInst.op, head.value ?? 0);
+      nextState.memoryWrites.push({
+        address: head.address || 0,
+        bytes: getAccessWidth(headInst.op).bytes,
+        instId: headInst.id,
+      });
+      nextState.log.push(
+        `Cycle ${nextState.cycle}: ${head.id} commits store of ${head.value} to address ${head.address}`
+      );
+    } else if (head.type === "REGISTER" && registers[head.dest!]) {
+      const reg = registers[head.dest!];
+      reg.value = head.value!;
+      if (reg.qi === head.id) reg.qi = null;
+      // Renaming: no later instruction can read the old mapping any more
+      if (head.previous) nextState.freeList.push(head.previous);
+      nextState.log.push(
+        `Cycle ${nextState.cycle}: ${head.id} commits ${head.value} to ${head.dest}` +
+          (head.physical ? ` (${head.physical}), freeing ${head.previous}` : "")
+      );
+    } else {
+      nextState.log.push(
+        `Cycle ${nextState.cycle}: ${head.id} commits ${headInst.op}`
+      );
+    }
+
+    headInst.commitCycle = nextState.cycle;
+
+    // Committed entries keep their contents for display, like the textbook tables
+    rob[nextState.robHead] = {
+      ...head,
+      busy: false,
+      state: InstState.COMMIT,
+    };
+    nextState.robHead = (nextState.robHead + 1) % rob.length;
+  }
+  // Nothing else happens once an exception has halted the run
+  if (nextState.isFinished) return nextState;
+
+  // =========================================================================
+  // 1. WRITE RESULT (Broadcast on CDB)
+  // =========================================================================
+  // Without a ROB, speculative results must not reach the registers.
+  // Speculative loads also wait until every earlier store address is known.
   const readyToWrite = reservationStations.filter(
-    (r) => r.busy && r.timeLeft === 0 && r.result !== null
+    (r) =>
+      r.busy &&
+      r.timeLeft === 0 &&
+      r.result !== null &&
+      (useROB || !isSpeculative(r.instId)) &&
+      (r.type !== "LOAD" ||
+        config.loadStorePolicy !== LoadStorePolicy.SPECULATIVE ||
+        olderStores(r.instId!).every((st) => st.address !== null))
   );
 
-  if (readyToWrite.length > 0) {
-    // Pick the first one (arbitration strategy: FCFS or random)
-    cdbProducer = readyToWrite[0];
-
-    nextState.cdb = { tag: cdbProducer.id, value: cdbProducer.result! };
+  // Arbitration: the first nextState.cdb.length stations get a bus
+  const stationIndex = (r: ReservationStation) =>
+    reservationStations.indexOf(r);
+  const ranked = [...readyToWrite].sort((x, y) => {
+    switch (config.cdb.arbitration) {
+      case CDBArbitration.OLDEST_FIRST:
+        return x.instId! - y.instId!;
+      case CDBArbitration.ROUND_ROBIN: {
+        const n = reservationStations.length;
+        const turn = (r: ReservationStation) =>
+          (stationIndex(r) - nextState.cdbRoundRobin + n) % n;
+        return turn(x) - turn(y);
+      }
+      default:
+        return (
+          CDB_PRIORITY.indexOf(x.type) - CDB_PRIORITY.indexOf(y.type) ||
+          stationIndex(x) - stationIndex(y)
+        );
+    }
+  });
+  const winners = ranked.slice(0, nextState.cdb.length);
+
+  // Finished results that do not get a CDB this cycle
+  reservationStations.forEach((r) => {
+    if (!r.busy || r.timeLeft !== 0 || r.result === null) return;
+    if (readyToWrite.includes(r)) {
+      if (winners.includes(r)) return;
+      const last = winners[winners.length - 1];
+      stall(
+        r.instId,
+        "CDB",
+        `Lost CDB arbitration to ${winners.map((w) => w.id).join(", ")}`,
+        { tag: last.id, otherInstId: last.instId! }
+      );
+    } else if (!useROB && isSpeculative(r.instId)) {
+      stallOnBranch(r.instId!, "Result held");
+    } else {
+      const store = olderStores(r.instId!).find((st) => st.address === null);
+      stall(
+        r.instId,
+        "MEMORY_ORDER",
+        `Speculative load waits for the address of store #${store?.instId}`,
+        { otherInstId: store?.instId }
+      );
+    }
+  });
+  if (winners.length > 0)
+    nextState.cdbRoundRobin =
+      (stationIndex(winners[winners.length - 1]) + 1) %
+      reservationStations.length;
+
+  winners.forEach((producer, bus) => {
+    // In ROB mode results are tagged with the ROB entry, not the RS, and
+    // with renaming by the physical register they go to
+    const entry = rob.find((e) => e.id === producer.dest);
+    const tag = entry?.physical ?? (useROB ? producer.dest! : producer.id);
+    const value = producer.result!;
+
+    nextState.cdb[bus] = { tag, value, source: producer.id };
     nextState.log.push(
-      `Cycle ${nextState.cycle}: ${cdbProducer.id} broadcasts result ${cdbProducer.result}`
+      `Cycle ${nextState.cycle}: ${producer.id} broadcasts result ${value}` +
+        (useROB ? ` (tag ${tag})` : "") +
+        (nextState.cdb.length > 1 ? ` on CDB${bus + 1}` : "")
     );
 
     // Update instruction status
-    const inst = nextState.instructions.find(
-      (i) => i.id === cdbProducer!.instId
-    );
+    const inst = nextState.instructions.find((i) => i.id === producer.instId);
     if (inst) inst.writeCycle = nextState.cycle;
 
-    // Update Registers
-    Object.values(registers).forEach((reg) => {
-      if (reg.qi === cdbProducer!.id) {
-        reg.value = cdbProducer!.result!;
-        reg.qi = null;
+    if (entry?.physical) {
+      const phys = physicalRegister(entry.physical);
+      phys.value = value;
+      phys.ready = true;
+    }
+
+    if (useROB) {
+      // Registers are only updated at commit
+      const robIndex = rob.findIndex((e) => e.id === producer.dest);
+      if (robIndex !== -1) {
+        rob[robIndex] = {
+          ...rob[robIndex],
+          value,
+          ready: true,
+          state: InstState.WRITING_RESULT,
+        };
       }
-    });
+    } else {
+      // Update Registers (and the checkpoints of pending branches)
+      const registerFiles = [
+        registers,
+        ...nextState.pendingBranches.map((b) => b.checkpoint || {}),
+      ];
+      registerFiles.forEach((file) =>
+        Object.values(file).forEach((reg) => {
+          if (reg.qi === tag) {
+            reg.value = value;
+            reg.qi = null;
+          }
+        })
+      );
+    }
 
     // Update RS waiting for operands
     reservationStations.forEach((rs) => {
       if (rs.busy) {
-        if (rs.qj === cdbProducer!.id) {
-          rs.vj = cdbProducer!.result!;
+        if (rs.qj === tag) {
+          rs.vj = value;
           rs.qj = null;
         }
-        if (rs.qk === cdbProducer!.id) {
-          rs.vk = cdbProducer!.result!;
+        if (rs.qk === tag) {
+          rs.vk = value;
           rs.qk = null;
         }
       }
     });
 
     // Clear Producer RS
-    const producerIndex = reservationStations.indexOf(cdbProducer);
-    if (producerIndex !== -1) {
-      reservationStations[producerIndex] = {
-        ...reservationStations[producerIndex],
-        busy: false,
-        op: null,
-        vj: null,
-        vk: null,
-        qj: null,
-        qk: null,
-        a: null,
-        instId: null,
-        result: null,
-      };
-    }
-  }
+    const producerIndex = stationIndex(producer);
+    if (producerIndex !== -1)
+      reservationStations[producerIndex] = emptyRS(
+        reservationStations[producerIndex]
+      );
+  });
 
   // =========================================================================
   // 2. EXECUTE
   // =========================================================================
   reservationStations.forEach((rs) => {
-    if (!rs.busy) return;
+    if (!rs.busy || nextState.isFinished) return;
+
+    // Address computation is its own step, once the base register is ready
+    if ((rs.type === "LOAD" || rs.type === "STORE") && !rs.addrReady) {
+      if (rs.qj !== null) {
+        const base = nextState.instructions.find((i) => i.id === rs.instId);
+        stall(
+          rs.instId,
+          "BASE_REGISTER",
+          `Base register ${base?.src1} waits for ${rs.qj}`,
+          { tag: rs.qj }
+        );
+      } else {
+        rs.a = (rs.vj || 0) + (rs.a || 0);
+        rs.addrReady = true;
+        nextState.log.push(
+          `Cycle ${nextState.cycle}: ${rs.id} computes address ${rs.a}`
+        );
+        if (
+          rs.type === "STORE" &&
+          config.loadStorePolicy === LoadStorePolicy.SPECULATIVE
+        )
+          replayLoads(rs);
+      }
+      return;
+    }
 
     // Wait for operands
-    if (rs.qj === null && rs.qk === null) {
+    if (rs.qj !== null || rs.qk !== null) {
+      const inst = nextState.instructions.find((i) => i.id === rs.instId);
+      // Same operand mapping as at issue
+      const isBranch = !!inst && getOpType(inst.op) === OpType.BRANCH;
+      const sources: [string | null, string | undefined][] = [
+        [rs.qj, isBranch ? inst?.dest : inst?.src1],
+        [
+          rs.qk,
+          rs.type === "STORE" ? inst?.dest : isBranch ? inst?.src1 : inst?.src2,
+        ],
+      ];
+      const waits = sources
+        .filter(([tag]) => tag !== null)
+        .map(([tag, reg]) => ({ reg, tag: tag! }));
+      stall(rs.instId, "RAW", rawStallMessage(waits), { tag: waits[0].tag });
+    } else {
       const inst = nextState.instructions.find((i) => i.id === rs.instId);
       if (!inst) return;
 
       // Start Execution
       if (inst.execStartCycle === null) {
+        let forwarded: number | null = null;
+        if (rs.type === "LOAD") {
+          const check = checkLoad(rs);
+          if (!check.go) {
+            // Memory ordering, try again next cycle
+            stall(
+              rs.instId,
+              "MEMORY_ORDER",
+              `Load waits, ${check.waitFor?.why}`,
+              { otherInstId: check.waitFor?.instId }
+            );
+            return;
+          }
+          forwarded = check.forwarded;
+        } else if (rs.type === "STORE") {
+          const conflict = findStoreConflict(rs);
+          if (conflict) {
+            const kind = conflict.type === "STORE" ? "store" : "load";
+            stall(
+              rs.instId,
+              "MEMORY_ORDER",
+              `Store waits for earlier ${kind} #${conflict.instId}` +
+                (conflict.addrReady
+                  ? ` at address ${conflict.a}`
+                  : " (address not known yet)"),
+              { otherInstId: conflict.instId! }
+            );
+            return;
+          }
+        }
+
+        // A unit takes one new op per cycle if pipelined, else one at a time
+        const fuType = getFUType(rs.type);
+        const unit = nextState.functionalUnits.find(
+          (u) =>
+            u.type === fuType &&
+            !u.ops.some((op) =>
+              u.pipelined
+                ? op.startCycle === nextState.cycle
+                : op.endCycle >= nextState.cycle
+            )
+        );
+        if (!unit) {
+          const busy = nextState.functionalUnits
+            .filter((u) => u.type === fuType)
+            .map((u) => `${u.id} (${u.ops.map((op) => op.rsId).join(", ")})`);
+          stall(
+            rs.instId,
+            "STRUCTURAL",
+            `No free ${fuType} unit: ${busy.join(", ")}`
+          );
+          return;
+        }
+
+        // Out-of-range or misaligned accesses and divides by zero fault.
+        // With a ROB the exception waits for commit; without one it is
+        // taken now, once the instruction is not speculative.
+        const accessFault =
+          rs.type === "LOAD" || rs.type === "STORE"
+            ? checkAccess(rs.a || 0, inst.op, config)
+            : null;
+        const fault =
+          getOpType(inst.op) === OpType.DIV
+            ? checkDivide(inst.op, rs.vk ?? 0)
+            : accessFault;
+        if (fault && !useROB && isSpeculative(inst.id)) {
+          stallOnBranch(inst.id, "Faulting instruction waits");
+          return;
+        }
+        inst.exception = fault;
+        if (fault && !useROB) {
+          if (config.exceptionHandling === ExceptionHandling.HALT) {
+            nextState.trap = {
+              instId: inst.id,
+              message: fault,
+              precise: isPreciseTrap(nextState.instructions, inst.id),
+            };
+            nextState.log.push(
+              `Cycle ${nextState.cycle}: #${inst.id} raises an exception: ${fault}, simulation halted`
+            );
+            nextState.isFinished = true;
+            return;
+          }
+          nextState.log.push(
+            `Cycle ${nextState.cycle}: #${inst.id} raises an exception: ${fault}, skipped`
+          );
+        }
+
+        // Each L1 block a miss brings in needs an MSHR; a blocking cache
+        // allows only one access at a time. An access that needs more MSHRs
+        // than there are waits until they are all free.
+        const blocks = getBlockAddresses(
+          rs.a || 0,
+          getAccessWidth(inst.op).bytes,
+          config
+        );
+        let inFlight: MSHREntry[] = [];
+        let newMisses: number[] = [];
+        if (
+          (rs.type === "LOAD" || rs.type === "STORE") &&
+          forwarded === null &&
+          !accessFault &&
+          nextState.caches.length > 0
+        ) {
+          inFlight = nextState.mshrs.filter((m) =>
+            blocks.includes(m.blockAddress)
+          );
+          newMisses = blocks.filter(
+            (b) =>
+              !inFlight.some((m) => m.blockAddress === b) &&
+              !probeL1(b, config, nextState.caches)
+          );
+          const blocked = config.cache.nonBlocking
+            ? newMisses.length > 0 &&
+              nextState.mshrs.length > 0 &&
+              nextState.mshrs.length + newMisses.length > config.cache.mshrs
+            : nextState.mshrs.length > 0;
+          if (blocked) {
+            nextState.mshrStalls++;
+            stall(
+              rs.instId,
+              "CACHE",
+              config.cache.nonBlocking
+                ? "All MSHRs busy"
+                : "Cache blocked on a miss"
+            );
+            return;
+          }
+        }
+
         inst.execStartCycle = nextState.cycle;
+        if (useROB) setROBState(rob, rs.dest, InstState.EXECUTING);
 
         let latency = 0;
         const opType = getOpType(inst.op);
 
         if (opType === OpType.LOAD || opType === OpType.STORE) {
-          // Address calc usually happens at Issue or start of Exec.
-          // Simplified: We use 'rs.a' which contains offset or calc'd address.
           const effectiveAddr = rs.a || 0;
 
-          if (opType === OpType.LOAD) {
-            const { hit, penalty, newCache } = accessCache(
+          if (accessFault) {
+            // A faulting access never reaches memory
+            latency = config.latencies[opType];
+          } else if (opType === OpType.LOAD && forwarded !== null) {
+            // Store-to-load forwarding: no cache access needed
+            rs.vk = forwarded;
+            latency = config.latencies[OpType.LOAD];
+            nextState.log.push(
+              `Cycle ${nextState.cycle}: ${rs.id} forwarded ${forwarded} from an earlier store to address ${effectiveAddr}`
+            );
+          } else if (inFlight.length === blocks.length) {
+            // Secondary miss: wait for the blocks already on their way
+            const wait = mergeMisses(inFlight, inst.id);
+            latency = config.latencies[opType] + wait;
+            nextState.log.push(
+              `Cycle ${nextState.cycle}: ${
+                inst.op
+              } at address ${effectiveAddr} merged into ${inFlight
+                .map((m) => m.id)
+                .join(", ")} (${wait} cycles left)`
+            );
+          } else {
+            // Loads and stores both go through the hierarchy when they execute
+            const {
+              latency: memLatency,
+              hitLevel,
+              writebacks,
+              newCaches,
+            } = accessHierarchy(
               effectiveAddr,
+              getAccessWidth(inst.op).bytes,
               config,
-              nextState.cache,
-              nextState.cycle
+              nextState.caches,
+              nextState.cycle,
+              opType === OpType.STORE
             );
-            nextState.cache = newCache;
-            latency = config.latencies[OpType.LOAD] + (hit ? 0 : penalty);
-            if (!hit)
+            nextState.caches = newCaches;
+            // Blocks already on their way are waited for, not fetched again
+            const wait = mergeMisses(inFlight, inst.id);
+            latency = config.latencies[opType] + Math.max(memLatency, wait);
+            if (nextState.caches.length > 0 && hitLevel !== nextState.caches[0].name) {
+              // Track the fills; a write-around store never brings a block in
+              const ids: string[] = [];
+              newMisses
+                .filter((b) => probeL1(b, config, nextState.caches))
+                .forEach((blockAddress) => {
+                  const id = nextMSHRId(nextState.mshrs);
+                  nextState.mshrs = [
+                    ...nextState.mshrs,
+                    {
+                      id,
+                      blockAddress,
+                      readyCycle: nextState.cycle + memLatency,
+                      instIds: [inst.id],
+                    },
+                  ];
+                  ids.push(id);
+                });
+              const tracked = ids.length > 0 ? ` in ${ids.join(", ")}` : "";
               nextState.log.push(
-                `Cycle ${nextState.cycle}: Cache Miss for ${inst.op} at address ${effectiveAddr}`
+                `Cycle ${nextState.cycle}: Cache Miss for ${inst.op} at address ${effectiveAddr}, served by ${hitLevel} (${memLatency} cycles)${tracked}`
+              );
+            }
+            if (writebacks > 0)
+              nextState.log.push(
+                `Cycle ${nextState.cycle}: ${writebacks} dirty block(s) written back`
               );
-          } else {
-            latency = config.latencies[OpType.STORE];
           }
         } else {
           latency = config.latencies[opType];
         }
 
         rs.timeLeft = latency;
+        unit.ops.push({
+          rsId: rs.id,
+          instId: inst.id,
+          startCycle: nextState.cycle,
+          endCycle: nextState.cycle + latency - 1,
+        });
       }
 
       if (rs.timeLeft > 0) {
         rs.timeLeft--;
       }
 
+      // Without a ROB, a speculative store holds until its branch resolves
+      const holdStore =
+        !useROB &&
+        getOpType(inst.op) === OpType.STORE &&
+        isSpeculative(inst.id);
+      if (holdStore && rs.timeLeft === 0 && inst.execEndCycle === null)
+        stallOnBranch(inst.id, "Store held");
+
       // Execution Finished
-      if (rs.timeLeft === 0 && inst.execEndCycle === null) {
+      if (rs.timeLeft === 0 && inst.execEndCycle === null && !holdStore) {
         inst.execEndCycle = nextState.cycle;
 
         let res = 0;
         const opType = getOpType(inst.op);
-        const v1 = rs.vj || 0;
-        const v2 = rs.vk || 0;
+        const v1 = rs.vj ?? 0;
+        const v2 = rs.vk ?? 0;
 
         switch (opType) {
           case OpType.ADD:
@@ -336,10 +1181,20 @@ export const nextCycle = (
             res = v2 !== 0 ? v1 / v2 : 0;
             break;
           case OpType.LOAD:
-            res = memory[rs.a || 0] || 0;
+            // vk holds forwarded store data, if any
+            res = rs.vk !== null ? rs.vk : readMemory(memory, rs.a || 0, inst.op);
+            if (inst.exception) res = 0;
             break;
           case OpType.STORE:
-            memory[rs.a || 0] = rs.vk || 0;
+            // In ROB mode the store only writes memory when it commits
+            if (!useROB && !inst.exception) {
+              writeMemory(memory, rs.a || 0, inst.op, rs.vk ?? 0);
+              nextState.memoryWrites.push({
+                address: rs.a || 0,
+                bytes: getAccessWidth(inst.op).bytes,
+                instId: inst.id,
+              });
+            }
             res = NaN;
             break;
           case OpType.BRANCH:
@@ -350,17 +1205,63 @@ export const nextCycle = (
             if (isBNE && v1 !== v2) taken = true;
             if (isBEQ && v1 === v2) taken = true;
 
-            if (taken) {
-              // FIX: Label is in src2 for Branch instructions
-              const targetLabel = inst.src2;
-              if (labels[targetLabel] !== undefined) {
-                nextState.pc = labels[targetLabel];
+            // FIX: Label is in src2 for Branch instructions
+            const targetLabel = inst.src2;
+            const target =
+              labels[targetLabel] !== undefined ? labels[targetLabel] : null;
+            const pending = nextState.pendingBranches.find(
+              (b) => b.instId === inst.id
+            );
+
+            if (!pending) {
+              // No prediction was made, issue was stalled on this branch
+              if (taken && target !== null) {
+                nextState.pc = target;
                 nextState.log.push(
                   `Cycle ${nextState.cycle}: Branch taken to ${targetLabel}`
                 );
               }
+              nextState.branchStall = false;
+            } else {
+              const correct =
+                pending.predictedTaken === taken &&
+                (!taken || pending.target === target);
+
+              nextState.predictor = updatePredictor(
+                nextState.predictor,
+                config,
+                inst.pcAddress,
+                inst.raw,
+                taken,
+                target,
+                correct
+              );
+
+              if (correct) {
+                nextState.pendingBranches = nextState.pendingBranches.filter(
+                  (b) => b.instId !== inst.id
+                );
+                nextState.log.push(
+                  `Cycle ${nextState.cycle}: Branch ${
+                    taken ? "taken" : "not taken"
+                  }, prediction correct`
+                );
+              } else {
+                squashYounger(nextState, inst.id);
+                nextState.pendingBranches = nextState.pendingBranches.filter(
+                  (b) => b.instId !== inst.id
+                );
+                nextState.pc =
+                  taken && target !== null ? target : inst.pcAddress + 4;
+                nextState.log.push(
+                  `Cycle ${nextState.cycle}: Branch mispredicted (${
+                    taken ? "taken" : "not taken"
+                  }), squashing younger instructions and fetching from PC ${
+                    nextState.pc
+                  }`
+                );
+              }
             }
-            nextState.branchStall = false;
             res = NaN;
             break;
         }
@@ -370,20 +1271,22 @@ export const nextCycle = (
         // Stores and Branches don't write back to CDB, clear immediately
         if (opType === OpType.STORE || opType === OpType.BRANCH) {
           inst.writeCycle = nextState.cycle;
-          rs.busy = false;
-          const rsIdx = reservationStations.indexOf(rs);
-          reservationStations[rsIdx] = {
-            ...reservationStations[rsIdx],
-            busy: false,
-            op: null,
-            instId: null,
-            vj: null,
-            vk: null,
-            qj: null,
-            qk: null,
-            a: null,
-            result: null,
-          };
+
+          // Their ROB entry is complete now; stores carry address and data to commit
+          if (useROB) {
+            const robIndex = rob.findIndex((e) => e.id === rs.dest);
+            if (robIndex !== -1) {
+              rob[robIndex] = {
+                ...rob[robIndex],
+                value: opType === OpType.STORE ? rs.vk ?? 0 : null,
+                address: opType === OpType.STORE ? rs.a || 0 : null,
+                ready: true,
+                state: InstState.WRITING_RESULT,
+              };
+            }
+          }
+
+          reservationStations[reservationStations.indexOf(rs)] = emptyRS(rs);
         }
       }
     }
@@ -392,215 +1295,308 @@ export const nextCycle = (
   // =========================================================================
   // 3. ISSUE
   // =========================================================================
-  if (!nextState.branchStall) {
-    let issueInst = nextState.instructions.find(
-      (i) => i.pcAddress === nextState.pc && i.issueCycle === null
-    );
+  // A new loop instance that cannot issue is not in the instruction list yet
+  let stalledIssue: InstructionLine | undefined;
+
+  // Up to issueWidth instructions in program order; the group ends at the
+  // first one that cannot issue, or after a branch that redirects fetch
+  for (let slot = 0; slot < config.issueWidth; slot++) {
+    if (nextState.branchStall) {
+      // The next instruction is not known until the branch resolves
+      const branch = nextState.instructions.find(
+        (i) =>
+          getOpType(i.op) === OpType.BRANCH &&
+          i.issueCycle !== null &&
+          i.execEndCycle === null &&
+          !i.squashed
+      );
+      stall(
+        null,
+        "BRANCH",
+        `Issue waits for branch #${branch?.id} to resolve`,
+        { otherInstId: branch?.id }
+      );
+      break;
+    }
+
+    const fetched = fetchInstruction(nextState.instructions, nextState.pc);
+    if (!fetched) break;
+    const { inst: issueInst, isNew: isNewInstance } = fetched;
+
+    const opType = getOpType(issueInst.op);
+    const rsType = getRSType(opType);
+
+    // Helper to get Value or RS Tag
+    const resolveOperand = (
+      regName: string
+    ): { v: number | null; q: string | null } => {
+      if (!registers[regName]) return { v: 0, q: null }; // Immediate or zero
+      if (usePRF) {
+        // Renaming: the physical register the RAT maps it to
+        const phys = physicalRegister(nextState.rat[regName]);
+        return phys.ready
+          ? { v: phys.value, q: null }
+          : { v: null, q: phys.name };
+      }
+      if (registers[regName].qi) {
+        const tag = registers[regName].qi;
+        // No need to snatch from the CDB: this cycle's broadcasts already
+        // cleared qi, and a tag on the bus may belong to a reissued station
+        // ROB mode: a written but uncommitted result is read from the ROB
+        const robEntry = rob.find((e) => e.id === tag);
+        if (robEntry && robEntry.busy && robEntry.ready)
+          return { v: robEntry.value, q: null };
+        return { v: null, q: tag };
+      }
+      return { v: registers[regName].value, q: null };
+    };
 
-    // === DYNAMIC LOOP HANDLING ===
-    if (!issueInst) {
-      // If PC is valid but no pending instruction, we looped. Create new instance.
-      const template = nextState.instructions.find(
-        (i) => i.pcAddress === nextState.pc
+    // -----------------------------
+    // 3a. ROB Allocation Check
+    // -----------------------------
+    // Memory ordering is handled by the load/store queue, so loads and
+    // stores issue without waiting for their base register.
+    // ROB mode: issue also needs a free entry at the tail
+    const robEntry = useROB ? rob[nextState.robTail] : null;
+    if (robEntry && robEntry.busy) {
+      stalledIssue = issueInst;
+      stall(issueInst.id, "STRUCTURAL", "No free ROB entry");
+      break;
+    }
+
+    // -----------------------------
+    // 3b. Reservation Station Allocation
+    // -----------------------------
+    const freeRS = reservationStations.find(
+      (r) => r.type === rsType && !r.busy
+    );
+    if (!freeRS) {
+      stalledIssue = issueInst;
+      stall(
+        issueInst.id,
+        "STRUCTURAL",
+        `No free ${rsType} reservation station`,
+        { tag: rsType }
       );
+      break;
+    }
 
-      if (template) {
-        const maxId = nextState.instructions.reduce(
-          (max, i) => Math.max(max, i.id),
-          0
+    // Branches and Stores do not write to registers
+    const writesRegister =
+      opType !== OpType.STORE &&
+      opType !== OpType.BRANCH &&
+      !!registers[issueInst.dest];
+
+    // -----------------------------
+    // 3c. Physical Register Allocation (renaming mode)
+    // -----------------------------
+    if (usePRF && writesRegister && nextState.freeList.length === 0) {
+      stalledIssue = issueInst;
+      stall(issueInst.id, "STRUCTURAL", "No free physical register");
+      break;
+    }
+
+    // ISSUE!
+    if (isNewInstance) nextState.instructions.push(issueInst);
+    issueInst.issueCycle = nextState.cycle;
+    nextState.pc += 4;
+
+    if (opType === OpType.BRANCH) {
+      if (config.branchPredictor.type === BranchPredictorType.STALL) {
+        nextState.branchStall = true;
+      } else {
+        // Predict and keep fetching down the predicted path
+        const decodedTarget =
+          labels[issueInst.src2] !== undefined
+            ? labels[issueInst.src2]
+            : null;
+        const prediction = predictBranch(
+          nextState.predictor,
+          config,
+          issueInst.pcAddress,
+          decodedTarget
+        );
+        const checkpoint: { [key: string]: Register } = {};
+        if (!useROB)
+          Object.keys(registers).forEach(
+            (name) => (checkpoint[name] = { ...registers[name] })
+          );
+
+        nextState.pendingBranches.push({
+          instId: issueInst.id,
+          pcAddress: issueInst.pcAddress,
+          predictedTaken: prediction.taken,
+          target: prediction.target,
+          checkpoint: useROB ? null : checkpoint,
+        });
+        if (prediction.taken && prediction.target !== null)
+          nextState.pc = prediction.target;
+
+        nextState.log.push(
+          `Cycle ${nextState.cycle}: ${issueInst.op} predicted ${
+            prediction.taken ? "taken" : "not taken"
+          }, fetching from PC ${nextState.pc}`
         );
-        const newInst: InstructionLine = {
-          ...template,
-          id: maxId + 1,
-          issueCycle: null,
-          execStartCycle: null,
-          execEndCycle: null,
-          writeCycle: null,
-        };
-        nextState.instructions.push(newInst);
-        issueInst = newInst;
       }
     }
 
-    if (issueInst) {
-      const opType = getOpType(issueInst.op);
-      const rsType = getRSType(opType);
-      let effectiveAddr: number | null = null;
-      let stallIssue = false;
-
-      // -----------------------------
-      // 3a. Address / Hazard Check
-      // -----------------------------
-      if (opType === OpType.LOAD || opType === OpType.STORE) {
-        // Parser Logic: LOAD/STORE R1, 10(R2) -> dest:R1, src1:R2, src2:10 (imm)
-        const baseReg = issueInst.src1;
-        const offset = issueInst.immediate;
-
-        // Resolve Base Register for Address Calculation
-        if (registers[baseReg] && registers[baseReg].qi !== null) {
-          if (nextState.cdb && nextState.cdb.tag === registers[baseReg].qi) {
-            effectiveAddr = nextState.cdb.value + offset;
-          } else {
-            stallIssue = true; // Wait for base address register
-          }
-        } else {
-          effectiveAddr =
-            (registers[baseReg] ? registers[baseReg].value : 0) + offset;
-        }
+    let vj: number | null = null,
+      vk: number | null = null,
+      qj: string | null = null,
+      qk: string | null = null,
+      a: number | null = null;
+
+    // --- OPERAND MAPPING (FIXED FOR PARSER) ---
+
+    // 1. Operand 1 (Vj/Qj)
+    if (opType === OpType.BRANCH) {
+      // BNE R1, R2, LABEL -> Parser: Dest=R1, Src1=R2
+      // First operand is R1 (Dest)
+      if (issueInst.dest) {
+        const res = resolveOperand(issueInst.dest);
+        vj = res.v;
+        qj = res.q;
+      }
+    } else if (issueInst.src1) {
+      // Normal: ADD F0, F1, F2 -> Src1=F1
+      const res = resolveOperand(issueInst.src1);
+      vj = res.v;
+      qj = res.q;
+    }
 
-        // Check Memory Hazards (Load/Store Ordering)
-        if (!stallIssue) {
-          for (const checkRS of reservationStations) {
-            if (
-              checkRS.busy &&
-              checkRS.instId !== null &&
-              checkRS.instId < issueInst.id
-            ) {
-              if (checkRS.a === effectiveAddr) {
-                const checkInst = nextState.instructions.find(
-                  (i) => i.id === checkRS.instId
-                );
-                const checkOp = checkInst
-                  ? getOpType(checkInst.op)
-                  : OpType.INTEGER;
-
-                // RAW / WAW / WAR hazards on Memory
-                if (opType === OpType.LOAD && checkOp === OpType.STORE)
-                  stallIssue = true;
-                if (
-                  opType === OpType.STORE &&
-                  (checkOp === OpType.LOAD || checkOp === OpType.STORE)
-                )
-                  stallIssue = true;
-              }
-            }
-          }
-        }
+    // 2. Operand 2 (Vk/Qk)
+    if (opType === OpType.STORE) {
+      // STORE F0, 0(R1) -> Parser: Dest=F0 (Value to store), Src1=R1 (Base)
+      // Vk is the value to store (Dest)
+      const res = resolveOperand(issueInst.dest);
+      vk = res.v;
+      qk = res.q;
+      a = issueInst.immediate; // Offset, Vj/Qj is the base register
+    } else if (opType === OpType.BRANCH) {
+      // BNE R1, R2, LABEL -> Src1=R2
+      // Second operand is R2 (Src1)
+      if (issueInst.src1) {
+        const res = resolveOperand(issueInst.src1);
+        vk = res.v;
+        qk = res.q;
       }
+    } else if (opType === OpType.LOAD) {
+      a = issueInst.immediate; // Offset, Vj/Qj is the base register
+    } else {
+      // Arithmetic: ADD F0, F1, F2 -> Src2=F2 or Immediate
+      if (registers[issueInst.src2]) {
+        const res = resolveOperand(issueInst.src2);
+        vk = res.v;
+        qk = res.q;
+      } else {
+        vk = issueInst.immediate;
+      }
+    }
 
-      // -----------------------------
-      // 3b. Reservation Station Allocation
-      // -----------------------------
-      if (!stallIssue) {
-        const freeRS = reservationStations.find(
-          (r) => r.type === rsType && !r.busy
-        );
+    // Occupy RS
+    const rsIndex = reservationStations.indexOf(freeRS);
+    reservationStations[rsIndex] = {
+      ...freeRS,
+      busy: true,
+      op: issueInst.op,
+      instId: issueInst.id,
+      vj,
+      vk,
+      qj,
+      qk,
+      a,
+      addrReady: false,
+      timeLeft: 0, // Latency handled in Exec
+      result: null,
+      dest: robEntry ? robEntry.id : null,
+    };
 
-        if (freeRS) {
-          // ISSUE!
-          issueInst.issueCycle = nextState.cycle;
-          nextState.pc += 4;
-          if (opType === OpType.BRANCH) nextState.branchStall = true;
-
-          let vj = null,
-            vk = null,
-            qj = null,
-            qk = null,
-            a = null;
-
-          // Helper to get Value or RS Tag
-          const resolveOperand = (regName: string) => {
-            if (!registers[regName]) return { v: 0, q: null }; // Immediate or zero
-            if (registers[regName].qi) {
-              const tag = registers[regName].qi;
-              // Snatch from CDB if broadcasting now
-              if (nextState.cdb && nextState.cdb.tag === tag)
-                return { v: nextState.cdb.value, q: null };
-              return { v: null, q: tag };
-            }
-            return { v: registers[regName].value, q: null };
-          };
-
-          // --- OPERAND MAPPING (FIXED FOR PARSER) ---
-
-          // 1. Operand 1 (Vj/Qj)
-          if (opType === OpType.BRANCH) {
-            // BNE R1, R2, LABEL -> Parser: Dest=R1, Src1=R2
-            // First operand is R1 (Dest)
-            if (issueInst.dest) {
-              const res = resolveOperand(issueInst.dest);
-              vj = res.v;
-              qj = res.q;
-            }
-          } else if (issueInst.src1) {
-            // Normal: ADD F0, F1, F2 -> Src1=F1
-            const res = resolveOperand(issueInst.src1);
-            vj = res.v;
-            qj = res.q;
-          }
+    // Renaming: the result gets a fresh physical register (after the
+    // sources above were read through the old mapping)
+    let physical: string | null = null;
+    let previous: string | null = null;
+    if (usePRF && writesRegister) {
+      physical = nextState.freeList.shift()!;
+      previous = nextState.rat[issueInst.dest];
+      nextState.rat[issueInst.dest] = physical;
+      physicalRegister(physical).ready = false;
+    }
 
-          // 2. Operand 2 (Vk/Qk)
-          if (opType === OpType.STORE) {
-            // STORE F0, 0(R1) -> Parser: Dest=F0 (Value to store), Src1=R1 (Base)
-            // Vk is the value to store (Dest)
-            const res = resolveOperand(issueInst.dest);
-            vk = res.v;
-            qk = res.q;
-            a = effectiveAddr; // Address computed earlier
-          } else if (opType === OpType.BRANCH) {
-            // BNE R1, R2, LABEL -> Src1=R2
-            // Second operand is R2 (Src1)
-            if (issueInst.src1) {
-              const res = resolveOperand(issueInst.src1);
-              vk = res.v;
-              qk = res.q;
-            }
-          } else if (opType === OpType.LOAD) {
-            a = effectiveAddr; // Load uses 'a', no Vk
-          } else {
-            // Arithmetic: ADD F0, F1, F2 -> Src2=F2 or Immediate
-            if (registers[issueInst.src2]) {
-              const res = resolveOperand(issueInst.src2);
-              vk = res.v;
-              qk = res.q;
-            } else {
-              vk = issueInst.immediate;
-            }
-          }
+    // Allocate the ROB entry at the tail
+    if (robEntry) {
+      rob[nextState.robTail] = {
+        ...robEntry,
+        busy: true,
+        instId: issueInst.id,
+        type:
+          opType === OpType.STORE
+            ? "STORE"
+            : opType === OpType.BRANCH
+            ? "BRANCH"
+            : "REGISTER",
+        state: InstState.ISSUED,
+        dest: writesRegister ? issueInst.dest : null,
+        value: null,
+        address: null,
+        ready: false,
+        physical,
+        previous,
+      };
+      nextState.robTail = (nextState.robTail + 1) % rob.length;
+    }
 
-          // Occupy RS
-          const rsIndex = reservationStations.indexOf(freeRS);
-          reservationStations[rsIndex] = {
-            ...freeRS,
-            busy: true,
-            op: issueInst.op,
-            instId: issueInst.id,
-            vj,
-            vk,
-            qj,
-            qk,
-            a,
-            timeLeft: 0, // Latency handled in Exec
-            result: null,
-          };
-
-          // Update Register RAT (if writing)
-          // Branches and Stores do not write to registers
-          if (
-            opType !== OpType.STORE &&
-            opType !== OpType.BRANCH &&
-            registers[issueInst.dest]
-          ) {
-            registers[issueInst.dest].qi = freeRS.id;
-          }
-        }
-      }
+    // Update Register RAT (if writing)
+    if (writesRegister && !usePRF) {
+      registers[issueInst.dest].qi = robEntry ? robEntry.id : freeRS.id;
     }
+
+    if (
+      opType === OpType.BRANCH &&
+      (nextState.branchStall || nextState.pc !== issueInst.pcAddress + 4)
+    )
+      break;
   }
 
+  logStalls(state, nextState, stalledIssue);
+
+  // Statistics counters
+  const { counters } = nextState;
+  counters.cdbBusyCycles += nextState.cdb.filter((b) => b).length;
+  reservationStations.forEach((r) => {
+    if (r.busy) counters.rsBusyCycles[r.type]++;
+  });
+
   // =========================================================================
   // CHECK COMPLETION
   // =========================================================================
-  const allWritten = nextState.instructions.every((i) => i.writeCycle !== null);
+  // Instructions skipped by a taken branch are never issued, so only
+  // issued (and not squashed) instructions have to be written back
+  const allWritten = nextState.instructions.every(
+    (i) => i.issueCycle === null || i.squashed || i.writeCycle !== null
+  );
 
   // Check if PC points to code that exists in history (Loop check)
   const pcIsValid = nextState.instructions.some(
     (i) => i.pcAddress === nextState.pc
   );
 
-  if (allWritten && !pcIsValid) {
+  // ROB mode: everything must also have committed
+  const robEmpty = rob.every((e) => !e.busy);
+
+  if (
+    allWritten &&
+    !pcIsValid &&
+    robEmpty &&
+    nextState.pendingBranches.length === 0
+  ) {
     nextState.isFinished = true;
     nextState.log.push("All instructions completed.");
+  } else if (!nextState.isFinished && nextState.cycle >= config.maxCycles) {
+    // Safety net for programs that never finish (e.g. an endless loop)
+    nextState.isFinished = true;
+    nextState.log.push(
+      `Cycle limit of ${config.maxCycles} reached, simulation stopped.`
+    );
   }
 
   return nextState;
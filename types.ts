@@ -17,13 +17,74 @@ export enum InstState {
   COMMIT = "COMMIT",
 }
 
+export enum SimulationEngine {
+  TOMASULO = "TOMASULO",
+  SCOREBOARD = "SCOREBOARD", // CDC 6600 scoreboarding, no renaming
+}
+
+export enum BranchPredictorType {
+  STALL = "STALL", // No prediction: issue waits until the branch resolves
+  NOT_TAKEN = "NOT_TAKEN",
+  TAKEN = "TAKEN",
+  ONE_BIT = "ONE_BIT",
+  TWO_BIT = "TWO_BIT", // 2-bit saturating counters
+  BTB = "BTB", // Branch target buffer, hit = predict taken
+}
+
+export enum LoadStorePolicy {
+  CONSERVATIVE = "CONSERVATIVE", // Loads wait for every earlier store address, and for matching stores to finish
+  FORWARDING = "FORWARDING", // Like conservative, but a matching store forwards its data
+  SPECULATIVE = "SPECULATIVE", // Loads bypass unknown store addresses and replay on a conflict
+}
+
+export enum ReplacementPolicy {
+  LRU = "LRU",
+  FIFO = "FIFO",
+  RANDOM = "RANDOM", // Seeded, so runs are reproducible
+  PLRU = "PLRU", // Tree pseudo-LRU
+}
+
+export enum CDBArbitration {
+  OLDEST_FIRST = "OLDEST_FIRST", // Lowest instruction id wins
+  FIXED_PRIORITY = "FIXED_PRIORITY", // By RS type: ADD, MULT, LOAD, INTEGER
+  ROUND_ROBIN = "ROUND_ROBIN", // Rotates over the stations after each grant
+}
+
+// What happens when an instruction faults (divide by zero, misaligned or
+// out-of-range access)
+export enum ExceptionHandling {
+  HALT = "HALT", // Stop the run; precise with a ROB, imprecise without
+  SKIP = "SKIP", // Record it, the instruction yields 0 (a store writes nothing)
+}
+
+export enum WritePolicy {
+  WRITE_THROUGH = "WRITE_THROUGH",
+  WRITE_BACK = "WRITE_BACK",
+}
+
 export interface InstructionConfig {
   op: OpType;
   cycles: number;
   rsType: "ADD" | "MULT" | "LOAD" | "STORE" | "INTEGER";
 }
 
+export interface CacheLevelConfig {
+  name: string; // "L1", "L2", ...
+  blockSize: number; // in bytes
+  cacheSize: number; // in bytes
+  associativity: number; // ways per set (1 = direct mapped)
+  hitLatency: number;
+  replacement: ReplacementPolicy;
+  seed: number; // RANDOM replacement seed
+  writePolicy: WritePolicy;
+  writeAllocate: boolean;
+}
+
+// Kinds of functional unit; loads and stores share the memory units
+export type FUType = "ADD" | "MULT" | "INTEGER" | "MEMORY";
+
 export interface SystemConfig {
+  engine: SimulationEngine;
   rsSizes: {
     ADD: number;
     MULT: number;
@@ -34,14 +95,96 @@ export interface SystemConfig {
   latencies: {
     [key in OpType]: number;
   };
+  functionalUnits: Record<
+    FUType,
+    {
+      count: number;
+      pipelined: boolean; // Accepts a new op every cycle, else busy throughout
+    }
+  >;
   cache: {
+    enabled: boolean; // When disabled every access goes to main memory
+    levels: CacheLevelConfig[]; // L1 first
+    memoryLatency: number; // Main memory access time in cycles
+    nonBlocking: boolean; // Misses overlap, tracked by MSHRs
+    mshrs: number; // Outstanding L1 misses allowed in non-blocking mode
+  };
+  rob: {
+    enabled: boolean; // Speculative Tomasulo with in-order commit
+    entries: number;
+  };
+  // R10K-style renaming (ROB mode only): results go to a physical register
+  // file named through a register alias table, instead of tags in qi
+  physicalRegisters: {
     enabled: boolean;
-    blockSize: number; // in bytes
-    cacheSize: number; // in bytes
-    hitLatency: number;
-    missPenalty: number;
+    count: number; // More than the architectural registers
+  };
+  loadStorePolicy: LoadStorePolicy;
+  branchPredictor: {
+    type: BranchPredictorType;
+    tableSize: number; // Entries in the 1-bit / 2-bit table or the BTB
+  };
+  issueWidth: number; // Instructions issued per cycle (and committed with a ROB)
+  cdb: {
+    count: number; // Results broadcast per cycle
+    arbitration: CDBArbitration;
   };
   memorySize: number;
+  exceptionHandling: ExceptionHandling;
+  maxCycles: number; // Safety limit, the run stops here if not finished
+}
+
+// A config value the simulator cannot run with
+export interface ConfigError {
+  field: string; // Path into SystemConfig, e.g. "cache.levels.0.cacheSize"
+  message: string;
+}
+
+export type Breakpoint =
+  | { kind: "ISSUE" | "COMPLETE" | "WRITEBACK"; line: number }
+  | { kind: "REGISTER"; register: string }
+  | { kind: "MEMORY"; address: number };
+
+// Why an instruction made no progress in a cycle
+export type StallKind =
+  | "STRUCTURAL" // No free RS, ROB entry or functional unit
+  | "RAW" // A source operand is still being produced
+  | "BASE_REGISTER" // A load/store cannot compute its address yet
+  | "MEMORY_ORDER" // Held back by an earlier load or store
+  | "BRANCH" // Waiting for a branch to resolve
+  | "CDB" // Lost CDB arbitration
+  | "CACHE" // No free MSHR, or a blocking cache is busy
+  | "WAR" // Scoreboard: an earlier instruction has not read the register yet
+  | "WAW"; // Scoreboard: an earlier instruction still has to write it
+
+export interface StallReason {
+  instId: number | null; // null when no particular instruction is known
+  kind: StallKind;
+  message: string;
+  tag?: string; // Awaited tag (RAW, BASE_REGISTER) or the CDB winner
+  otherInstId?: number; // Conflicting load/store or the blocking branch
+}
+
+// Running totals for the statistics panel, updated every cycle
+export interface RunCounters {
+  stallCycles: Record<StallKind, number>; // Instruction-cycles lost, by reason
+  cdbBusyCycles: number; // Broadcasts, i.e. busy bus-cycles over all CDBs
+  // Busy stations of each type, summed over cycles
+  rsBusyCycles: Record<ReservationStation["type"], number>;
+}
+
+// A difference between a finished run and the golden model
+export interface Mismatch {
+  location: string; // Register name or Mem[address]
+  expected: string;
+  actual: string;
+}
+
+export interface Diagnostic {
+  line: number; // 1-based
+  column: number; // 1-based
+  severity: "error" | "warning";
+  message: string;
 }
 
 export interface InstructionLine {
@@ -53,10 +196,44 @@ export interface InstructionLine {
   src2: string; // immediate or register
   immediate: number;
   pcAddress: number; // The instruction address
+  line: number; // 1-based source line
   issueCycle: number | null;
+  readCycle: number | null; // Only set by the scoreboard (read operands)
   execStartCycle: number | null;
   execEndCycle: number | null;
   writeCycle: number | null;
+  commitCycle: number | null; // Only set in ROB mode
+  squashed: boolean; // Issued down a mispredicted path and discarded
+  exception: string | null; // Fault raised by this instance, if any
+}
+
+export interface FunctionalUnit {
+  id: string; // e.g. "Add1"
+  type: FUType;
+  pipelined: boolean;
+  // Operations in flight, by the station that started them
+  ops: { rsId: string; instId: number; startCycle: number; endCycle: number }[];
+}
+
+// One row of the scoreboard's functional unit status table
+export interface ScoreboardUnit {
+  id: string; // e.g. "Mult1"
+  type: FUType;
+  busy: boolean;
+  op: string | null;
+  instId: number | null;
+  fi: string | null; // Destination register
+  fj: string | null; // Source registers
+  fk: string | null;
+  qj: string | null; // Units producing Fj and Fk
+  qk: string | null;
+  rj: boolean; // Fj is ready and not read yet
+  rk: boolean;
+  vj: number | null; // Operands, once read
+  vk: number | null;
+  a: number | null; // Effective address (loads and stores)
+  timeLeft: number;
+  result: number | null;
 }
 
 export interface ReservationStation {
@@ -68,23 +245,87 @@ export interface ReservationStation {
   vk: number | null;
   qj: string | null; // tag of RS producing source 1
   qk: string | null; // tag of RS producing source 2
-  a: number | null; // Address for load/store
+  a: number | null; // Offset for load/store, effective address once addrReady
+  addrReady: boolean; // Address computation step done
   instId: number | null; // Reference to the instruction ID
   timeLeft: number;
   result: number | null;
+  dest: string | null; // ROB tag receiving the result (ROB mode only)
 }
 
 export interface Register {
   name: string;
   value: number;
-  qi: string | null; // The RS tag currently writing to this register
+  qi: string | null; // The RS tag (ROB tag in ROB mode, scoreboard unit) currently writing to this register
+}
+
+export interface ROBEntry {
+  id: string; // ROB tag, e.g. "ROB1"
+  busy: boolean;
+  instId: number | null;
+  type: "REGISTER" | "STORE" | "BRANCH" | null;
+  state: InstState;
+  dest: string | null; // Architectural register (REGISTER entries)
+  value: number | null;
+  address: number | null; // Memory address (STORE entries)
+  ready: boolean; // Result written, entry may commit
+  physical: string | null; // Physical register allocated for dest (renaming)
+  previous: string | null; // Mapping it replaced, freed at commit
+}
+
+export interface PhysicalRegister {
+  name: string; // e.g. "P12"
+  value: number;
+  ready: boolean; // Written, readers take the value instead of waiting
 }
 
 export interface CacheBlock {
   tag: number;
   valid: boolean;
-  data: number[]; // Simulating data as array of bytes
+  dirty: boolean; // Write-back only
   lastAccess: number; // For LRU
+  insertedAt: number; // For FIFO
+}
+
+export interface CacheState {
+  name: string;
+  sets: CacheBlock[][]; // [set][way]
+  plru: number[][]; // Tree bits per set (PLRU)
+  rng: number; // RANDOM replacement generator state
+  hits: number;
+  misses: number;
+  totalCycles: number; // Sum of access times seen at this level, for AMAT
+}
+
+export interface PendingBranch {
+  instId: number;
+  pcAddress: number;
+  predictedTaken: boolean;
+  target: number | null; // PC when taken
+  // Register status when the branch issued, restored on a mispredict (non-ROB mode)
+  checkpoint: { [key: string]: Register } | null;
+}
+
+export interface BranchStats {
+  pcAddress: number;
+  raw: string;
+  predictions: number;
+  correct: number;
+  taken: number;
+}
+
+// Miss status holding register: one outstanding L1 miss
+export interface MSHREntry {
+  id: string;
+  blockAddress: number;
+  readyCycle: number; // Cycle the block arrives from below
+  instIds: number[]; // Primary miss first, then merged misses
+}
+
+export interface PredictorState {
+  counters: number[]; // 1-bit / 2-bit prediction table
+  btb: ({ pcAddress: number; target: number } | null)[];
+  stats: { [pcAddress: number]: BranchStats };
 }
 
 export interface SimulationState {
@@ -92,11 +333,54 @@ export interface SimulationState {
   pc: number;
   instructions: InstructionLine[];
   reservationStations: ReservationStation[];
+  functionalUnits: FunctionalUnit[];
+  scoreboard: ScoreboardUnit[]; // Empty unless the scoreboard engine runs
   registers: { [key: string]: Register };
   memory: { [address: number]: number }; // Byte addressable memory
-  cache: CacheBlock[];
-  cdb: { tag: string; value: number } | null;
+  memoryWrites: { address: number; bytes: number; instId: number }[]; // This cycle
+  stalls: StallReason[]; // This cycle
+  counters: RunCounters;
+  caches: CacheState[]; // One per level, L1 first
+  mshrs: MSHREntry[]; // In-flight L1 misses
+  mshrMerges: number; // Secondary misses merged into an MSHR
+  mshrStalls: number; // Accesses held back because no MSHR was free
+  rob: ROBEntry[]; // Empty when ROB mode is disabled
+  robHead: number; // Index of the oldest entry (next to commit)
+  robTail: number; // Index of the next entry to allocate
+  // Physical register renaming; all empty unless it is enabled
+  physicalRegisters: PhysicalRegister[];
+  rat: { [reg: string]: string }; // Register alias table: arch -> physical
+  freeList: string[]; // Unallocated physical registers, next one first
+  // One slot per bus, null when the bus is idle this cycle
+  cdb: ({ tag: string; value: number; source: string } | null)[];
+  cdbRoundRobin: number; // Station index that goes first next time
   log: string[];
   isFinished: boolean;
+  // The exception that halted the run. Precise when every older instruction
+  // completed and no younger one changed registers or memory.
+  trap: { instId: number; message: string; precise: boolean } | null;
   branchStall: boolean; // True if waiting for branch to resolve
+  pendingBranches: PendingBranch[]; // Unresolved predicted branches, oldest first
+  predictor: PredictorState;
+}
+
+// One cell of the pipeline diagram (instruction x cycle)
+export type PipelineStage =
+  | "ISSUE"
+  | "OPERANDS" // Waiting for a source operand
+  | "EXECUTE"
+  | "MISS" // Executing, but waiting on a cache miss
+  | "READ" // Scoreboard: reading its operands
+  | "WRITE" // Broadcasting on the CDB
+  | "COMMIT"
+  | "STALL"; // Ready, but held back (CDB, memory order, commit order...)
+
+export interface PipelineCell {
+  stage: PipelineStage;
+  reason: string; // Shown on hover
+}
+
+export interface PipelineRow {
+  inst: InstructionLine;
+  cells: (PipelineCell | null)[]; // Indexed by cycle, 0 is unused
 }